@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { parseJsonLossless } from "@/lib/lossless-json";
+import { SQL_DIALECTS, type SqlDialect } from "@/lib/sql-dialects";
+import {
+  ARRAY_MODES,
+  isSqlParams,
+  mergeAndFormatSql,
+  type ArrayMode,
+  type Diagnostic,
+  type FormatMode,
+  type MergeResult,
+} from "@/lib/sql-merge";
+
+// Generous for hand-written queries, small enough that a runaway client
+// can't tie up the formatter
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_SQL_LENGTH = 64 * 1024;
+
+// Problems with the request itself; merge problems are reported as the
+// library's diagnostics
+type RequestError = {
+  code: "payload_too_large" | "invalid_json" | "invalid_request";
+  message: string;
+};
+
+type ApiDiagnostic = Diagnostic & {
+  // Parameter indexes (1-based) or names involved, for parameter mismatches
+  parameters?: (number | string)[];
+};
+
+function fail(status: number, error: RequestError): NextResponse {
+  return NextResponse.json({ errors: [error] }, { status });
+}
+
+function withParameters(d: Diagnostic, r: MergeResult): ApiDiagnostic {
+  if (d.code === "not_enough_parameters") {
+    return { ...d, parameters: [...r.missingIndexes, ...r.missingNames] };
+  }
+  if (d.code === "too_many_parameters") {
+    return { ...d, parameters: [...r.unusedIndexes, ...r.unusedNames] };
+  }
+  return d;
+}
+
+// Reads the body as text, giving up as soon as it passes `limit` bytes so a
+// chunked upload without Content-Length can't make us buffer all of it.
+// Returns undefined when the body is too large.
+async function readBody(
+  request: Request,
+  limit: number
+): Promise<string | undefined> {
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * POST {sql, values, dialect?, format?, arrays?, jsonCast?} and get back the
+ * merged and formatted SQL. Merge problems come back as 422 with the partial
+ * result alongside `errors`; both `errors` and `warnings` hold diagnostics
+ * with a code, message and source range.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const declared = Number(request.headers.get("content-length") ?? 0);
+  const tooLarge: RequestError = {
+    code: "payload_too_large",
+    message: `Request body must be at most ${MAX_BODY_BYTES} bytes.`,
+  };
+  if (declared > MAX_BODY_BYTES) return fail(413, tooLarge);
+  const text = await readBody(request, MAX_BODY_BYTES);
+  if (text === undefined) return fail(413, tooLarge);
+
+  let body: unknown;
+  try {
+    body = parseJsonLossless(text);
+  } catch (e) {
+    return fail(400, {
+      code: "invalid_json",
+      message: `Invalid JSON: ${(e as Error).message}`,
+    });
+  }
+
+  const { sql, values, dialect, format, arrays, jsonCast } = (
+    typeof body === "object" && body !== null ? body : {}
+  ) as Record<string, unknown>;
+  const invalid = (message: string) =>
+    fail(400, { code: "invalid_request", message });
+
+  if (typeof sql !== "string") return invalid("'sql' must be a string.");
+  if (sql.length > MAX_SQL_LENGTH) {
+    return fail(413, {
+      code: "payload_too_large",
+      message: `'sql' must be at most ${MAX_SQL_LENGTH} characters.`,
+    });
+  }
+  if (!isSqlParams(values)) {
+    return invalid("'values' must be a JSON array or object.");
+  }
+  if (dialect !== undefined && !SQL_DIALECTS.some((d) => d.value === dialect)) {
+    return invalid(
+      `'dialect' must be one of: ${SQL_DIALECTS.map((d) => d.value).join(", ")}.`
+    );
+  }
+  if (format !== undefined && format !== "beautify" && format !== "minify") {
+    return invalid('\'format\' must be "beautify" or "minify".');
+  }
+  if (arrays !== undefined && !ARRAY_MODES.some((m) => m.value === arrays)) {
+    return invalid(
+      `'arrays' must be one of: ${ARRAY_MODES.map((m) => m.value).join(", ")}.`
+    );
+  }
+  if (jsonCast !== undefined && typeof jsonCast !== "boolean") {
+    return invalid("'jsonCast' must be a boolean.");
+  }
+
+  const r = await mergeAndFormatSql(sql, values, {
+    dialect: dialect as SqlDialect | undefined,
+    // Same default as the UI
+    arrays: (arrays as ArrayMode | undefined) ?? "list",
+    jsonCast,
+    format: (format as FormatMode | undefined) ?? "beautify",
+  });
+  const diagnostics = r.diagnostics.map((d) => withParameters(d, r));
+  const errors = diagnostics.filter((d) => d.severity === "error");
+  return NextResponse.json(
+    {
+      merged: r.result,
+      formatted: r.formatted,
+      placeholderCount: r.placeholderCount,
+      warnings: diagnostics.filter((d) => d.severity === "warning"),
+      errors,
+    },
+    { status: errors.length ? 422 : 200 }
+  );
+}
@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { importQueryLog } from "../lib/log-importers";
+import { SQL_DIALECTS, type SqlDialect } from "../lib/sql-dialects";
+import {
+  ARRAY_MODES,
+  hasErrors,
+  mergeAndFormatSql,
+  parseSqlParams,
+  positionAt,
+  type ArrayMode,
+  type SqlParams,
+} from "../lib/sql-merge";
+
+const USAGE = `Usage:
+  sql-merge [options] < query.json     read {"sql": "...", "values": [...]}
+  sql-merge --sql q.sql --params p.json [options]
+
+Options:
+  --sql <file>         SQL with placeholders ("-" for stdin)
+  --params <file>      JSON array or object of parameters ("-" for stdin)
+  --dialect <name>     ${SQL_DIALECTS.map((d) => d.value).join(", ")}
+  --arrays <mode>      ${ARRAY_MODES.map((m) => m.value).join(", ")} (default: list)
+  --json-cast          wrap JSON parameters in the dialect's JSON cast
+  --beautify           pretty-print the merged SQL (default)
+  --minify             print the merged SQL on one line
+  --raw                print the merged SQL as is
+  -h, --help           show this help
+
+Problems are printed to stderr as "line:column: severity: message [code]".
+Exits with 1 when the query can't be merged cleanly, 2 on bad input.`;
+
+// Thrown for input problems; reported without a stack trace
+class UsageError extends Error {}
+
+function readInput(file: string): string {
+  try {
+    return readFileSync(file === "-" ? 0 : file, "utf8");
+  } catch (e) {
+    throw new UsageError(`Cannot read ${file}: ${(e as Error).message}`);
+  }
+}
+
+function oneOf<T extends string>(
+  value: string | undefined,
+  allowed: { value: T }[],
+  option: string
+): T | undefined {
+  if (value === undefined) return undefined;
+  const match = allowed.find((a) => a.value === value);
+  if (!match) {
+    throw new UsageError(
+      `Unknown ${option} "${value}". Expected one of: ${allowed
+        .map((a) => a.value)
+        .join(", ")}.`
+    );
+  }
+  return match.value;
+}
+
+function readQuery(
+  sqlFile: string | undefined,
+  paramsFile: string | undefined
+): { sql: string; params: SqlParams } {
+  if (sqlFile === undefined) {
+    if (paramsFile !== undefined) {
+      throw new UsageError("--params needs --sql.");
+    }
+    const imported = importQueryLog(readInput("-"), "json");
+    if (!imported) {
+      throw new UsageError(
+        "Input must be a JSON object with 'sql' and 'values' properties."
+      );
+    }
+    return imported;
+  }
+
+  const sql = readInput(sqlFile);
+  if (paramsFile === undefined) return { sql, params: [] };
+  const parsed = parseSqlParams(readInput(paramsFile));
+  if ("error" in parsed) throw new UsageError(parsed.error);
+  return { sql, params: parsed.params };
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values: args } = parseArgs({
+    args: argv,
+    options: {
+      sql: { type: "string" },
+      params: { type: "string" },
+      dialect: { type: "string" },
+      arrays: { type: "string" },
+      "json-cast": { type: "boolean" },
+      beautify: { type: "boolean" },
+      minify: { type: "boolean" },
+      raw: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if ([args.beautify, args.minify, args.raw].filter(Boolean).length > 1) {
+    throw new UsageError("Pick one of --beautify, --minify and --raw.");
+  }
+
+  const dialect: SqlDialect =
+    oneOf(args.dialect, SQL_DIALECTS, "dialect") ?? "generic";
+  const arrays: ArrayMode =
+    oneOf(args.arrays, ARRAY_MODES, "array mode") ?? "list";
+  const { sql, params } = readQuery(args.sql, args.params);
+
+  const r = await mergeAndFormatSql(sql, params, {
+    dialect,
+    arrays,
+    jsonCast: args["json-cast"],
+    format: args.raw ? undefined : args.minify ? "minify" : "beautify",
+  });
+  for (const d of r.diagnostics) {
+    const at = d.range && positionAt(sql, d.range.start);
+    const where = at ? `${at.line}:${at.column}: ` : "";
+    console.error(`${where}${d.severity}: ${d.message} [${d.code}]`);
+  }
+  if (hasErrors(r.diagnostics)) return 1;
+  process.stdout.write(`${r.formatted.trimEnd()}\n`);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (e: unknown) => {
+    if (
+      e instanceof UsageError ||
+      (e as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")
+    ) {
+      console.error(`error: ${(e as Error).message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    throw e;
+  }
+);
@@ -0,0 +1,68 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import {
+  hasErrors,
+  positionAt,
+  type Diagnostic,
+  type SourceRange,
+} from "@/lib/sql-merge";
+
+type DiagnosticsListProps = {
+  // The SQL the ranges point into
+  sql: string;
+  // A problem with the input itself, e.g. parameters that aren't JSON
+  error?: string;
+  diagnostics: Diagnostic[];
+  onJump: (range: SourceRange) => void;
+};
+
+export default function DiagnosticsList({
+  sql,
+  error,
+  diagnostics,
+  onJump,
+}: DiagnosticsListProps) {
+  if (!error && !diagnostics.length) return null;
+  const failed = !!error || hasErrors(diagnostics);
+
+  return (
+    <ul
+      className={cn(
+        "grid gap-1 rounded-md border p-3 text-sm",
+        failed
+          ? "border-destructive bg-destructive/10"
+          : "border-border bg-muted"
+      )}
+    >
+      {error && <li className="text-destructive">{error}</li>}
+      {diagnostics.map((d, i) => {
+        const at = d.range && positionAt(sql, d.range.start);
+        return (
+          <li
+            key={i}
+            className={cn(
+              "flex items-baseline gap-2",
+              d.severity === "error" ? "text-destructive" : "text-foreground"
+            )}
+          >
+            {at ? (
+              <button
+                type="button"
+                onClick={() => onJump(d.range!)}
+                title="Show in the SQL"
+                className="shrink-0 font-mono text-xs underline-offset-2 hover:underline hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                {at.line}:{at.column}
+              </button>
+            ) : null}
+            <span>{d.message}</span>
+            <span className="ml-auto shrink-0 font-mono text-xs text-muted-foreground">
+              {d.code}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
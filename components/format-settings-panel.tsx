@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { XIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SqlDialect } from "@/lib/sql-dialects";
+import {
+  BEAUTIFY_INDENTS,
+  BUILT_IN_PRESETS,
+  createPreset,
+  sameBeautifyOptions,
+  type FormatPreset,
+} from "@/lib/format-presets";
+import type { BeautifyOptions } from "@/lib/sql-formatter";
+import { formatMergedSql } from "@/lib/sql-merge";
+
+type FormatSettingsPanelProps = {
+  options: BeautifyOptions;
+  onChange: (options: BeautifyOptions) => void;
+  // User presets only; the built-ins are always listed first
+  presets: FormatPreset[];
+  onPresetsChange: (presets: FormatPreset[]) => void;
+  // Formatted in the preview as the options change
+  previewSql: string;
+  dialect: SqlDialect;
+  onClose: () => void;
+};
+
+const NUMBER_FIELDS: {
+  key: "maxLineWidth" | "statementBreaks" | "clauseBreaks";
+  label: string;
+  min: number;
+  max: number;
+}[] = [
+  { key: "maxLineWidth", label: "Max line width (T-SQL)", min: 20, max: 999 },
+  {
+    key: "statementBreaks",
+    label: "Line breaks between statements",
+    min: 1,
+    max: 5,
+  },
+  { key: "clauseBreaks", label: "Line breaks before clauses", min: 1, max: 5 },
+];
+
+const BOOLEAN_FIELDS: {
+  key: Exclude<
+    keyof BeautifyOptions,
+    "indent" | (typeof NUMBER_FIELDS)[number]["key"]
+  >;
+  label: string;
+}[] = [
+  { key: "uppercaseKeywords", label: "Uppercase keywords" },
+  { key: "trailingCommas", label: "Trailing commas (off: leading)" },
+  { key: "spaceAfterExpandedComma", label: "Space after a line-break comma" },
+  { key: "expandCommaLists", label: "One column per line" },
+  { key: "expandInLists", label: "One IN (...) value per line" },
+  { key: "expandBooleanExpressions", label: "Break before AND / OR" },
+  { key: "expandBetweenConditions", label: "Break BETWEEN ... AND (T-SQL)" },
+  { key: "expandCaseStatements", label: "Break CASE into WHEN / THEN lines" },
+  { key: "breakJoinOnSections", label: "JOIN ... ON on its own line" },
+];
+
+const inputClassName =
+  "rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
+export default function FormatSettingsPanel({
+  options,
+  onChange,
+  presets,
+  onPresetsChange,
+  previewSql,
+  dialect,
+  onClose,
+}: FormatSettingsPanelProps) {
+  const [preview, setPreview] = useState<string>("");
+  const [presetName, setPresetName] = useState<string>("");
+  const allPresets = [...BUILT_IN_PRESETS, ...presets];
+  const current = allPresets.find((p) =>
+    sameBeautifyOptions(p.options, options)
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    formatMergedSql(previewSql, {
+      dialect,
+      format: "beautify",
+      beautify: options,
+    }).then((text) => {
+      if (!cancelled) setPreview(text);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [previewSql, dialect, options]);
+
+  const set = <K extends keyof BeautifyOptions>(
+    key: K,
+    value: BeautifyOptions[K]
+  ) => onChange({ ...options, [key]: value });
+
+  const onSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    // Saving under an existing name updates that preset
+    const existing = presets.find((p) => p.name === name);
+    onPresetsChange(
+      existing
+        ? presets.map((p) => (p === existing ? { ...p, options } : p))
+        : [...presets, createPreset(name, options)]
+    );
+    setPresetName("");
+  };
+
+  return (
+    <aside
+      aria-label="Formatter settings"
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-sm flex-col gap-3 overflow-auto border-l border-border bg-background p-4 shadow-lg"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-foreground">Beautify style</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close formatter settings"
+          className="rounded-md p-1 text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          <XIcon className="size-4" aria-hidden="true" />
+        </button>
+      </div>
+
+      <div className="grid gap-1">
+        <span className="text-xs font-medium text-muted-foreground">
+          Presets
+        </span>
+        <ul className="grid gap-1">
+          {allPresets.map((preset) => (
+            <li key={preset.id} className="flex items-center gap-2 text-sm">
+              <button
+                type="button"
+                onClick={() => onChange(preset.options)}
+                aria-pressed={preset === current}
+                className={cn(
+                  "flex-1 truncate rounded-md px-2 py-1 text-left hover:bg-muted hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring",
+                  preset === current
+                    ? "bg-muted font-medium text-foreground"
+                    : "text-muted-foreground"
+                )}
+              >
+                {preset.name}
+              </button>
+              {!preset.builtIn && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    onPresetsChange(presets.filter((p) => p.id !== preset.id))
+                  }
+                  className="rounded-md px-1 text-xs text-muted-foreground hover:text-destructive hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  Delete
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSavePreset();
+          }}
+        >
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            aria-label="Preset name"
+            className={cn(inputClassName, "min-w-0 flex-1")}
+          />
+          <button
+            type="submit"
+            disabled={!presetName.trim()}
+            className="rounded-md bg-muted px-3 py-1 text-sm font-medium text-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+          >
+            Save as preset
+          </button>
+        </form>
+      </div>
+
+      <div className="grid gap-2 border-t border-border pt-3 text-sm text-foreground">
+        <label className="flex items-center justify-between gap-2">
+          Indent
+          <select
+            value={options.indent}
+            onChange={(e) => set("indent", e.target.value)}
+            className={inputClassName}
+          >
+            {BEAUTIFY_INDENTS.map((indent) => (
+              <option key={indent.label} value={indent.value}>
+                {indent.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {NUMBER_FIELDS.map((field) => (
+          <label
+            key={field.key}
+            className="flex items-center justify-between gap-2"
+          >
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={options[field.key]}
+              onChange={(e) => {
+                const n = Math.trunc(Number(e.target.value));
+                if (n >= field.min) set(field.key, Math.min(n, field.max));
+              }}
+              className={cn(inputClassName, "w-20")}
+            />
+          </label>
+        ))}
+        {BOOLEAN_FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options[field.key]}
+              onChange={(e) => set(field.key, e.target.checked)}
+              className="size-4 accent-primary"
+            />
+            {field.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid gap-1 border-t border-border pt-3">
+        <span className="text-xs font-medium text-muted-foreground">
+          Preview
+        </span>
+        <pre className="max-h-72 overflow-auto rounded-md border border-input bg-muted p-2 font-mono text-xs text-foreground">
+          {preview}
+        </pre>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { XIcon } from "lucide-react";
+import { SQL_DIALECTS } from "@/lib/sql-dialects";
+import {
+  MAX_HISTORY_LIMIT,
+  searchHistory,
+  type HistoryEntry,
+} from "@/lib/merge-history";
+
+type MergeHistoryPanelProps = {
+  entries: HistoryEntry[];
+  limit: number;
+  onLimitChange: (limit: number) => void;
+  onRestore: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+};
+
+export default function MergeHistoryPanel({
+  entries,
+  limit,
+  onLimitChange,
+  onRestore,
+  onDelete,
+  onClear,
+  onClose,
+}: MergeHistoryPanelProps) {
+  const [query, setQuery] = useState<string>("");
+  const visible = searchHistory(entries, query);
+
+  return (
+    <aside
+      aria-label="Merge history"
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-sm flex-col gap-3 border-l border-border bg-background p-4 shadow-lg"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-foreground">
+          History ({entries.length})
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close history"
+          className="rounded-md p-1 text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          <XIcon className="size-4" aria-hidden="true" />
+        </button>
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search SQL and parameters"
+        className="rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground shadow-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      />
+
+      <ol className="grid flex-1 content-start gap-2 overflow-auto">
+        {visible.map((entry) => (
+          <li
+            key={entry.id}
+            className="grid gap-1 rounded-md border border-input p-2 text-sm"
+          >
+            <button
+              type="button"
+              onClick={() => onRestore(entry)}
+              title="Restore this query"
+              className="truncate text-left font-mono text-foreground hover:underline hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {entry.preview || "(empty)"}
+            </button>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {new Date(entry.createdAt).toLocaleString()} ·{" "}
+                {SQL_DIALECTS.find((d) => d.value === entry.dialect)?.label}
+              </span>
+              <button
+                type="button"
+                onClick={() => onDelete(entry.id)}
+                className="rounded-md px-1 hover:text-destructive hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+        {visible.length === 0 && (
+          <li className="text-sm text-muted-foreground">
+            {entries.length
+              ? "No entries match."
+              : "Successful merges show up here."}
+          </li>
+        )}
+      </ol>
+
+      <div className="flex items-center justify-between gap-2 border-t border-border pt-3 text-xs text-muted-foreground">
+        <label className="inline-flex items-center gap-2">
+          Keep
+          <input
+            type="number"
+            min={1}
+            max={MAX_HISTORY_LIMIT}
+            value={limit}
+            onChange={(e) => {
+              const n = Math.trunc(Number(e.target.value));
+              if (n >= 1) onLimitChange(Math.min(n, MAX_HISTORY_LIMIT));
+            }}
+            className="w-16 rounded-md border border-input bg-background px-2 py-1 text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          entries
+        </label>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={!entries.length}
+          className="rounded-md px-2 py-1 font-medium hover:text-destructive hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+        >
+          Clear history
+        </button>
+      </div>
+    </aside>
+  );
+}
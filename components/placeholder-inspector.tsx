@@ -0,0 +1,88 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { stringifyJsonLossless } from "@/lib/lossless-json";
+import type { PlaceholderInspection } from "@/lib/sql-merge";
+
+type PlaceholderInspectorProps = {
+  inspection: PlaceholderInspection;
+};
+
+function bindingLabel(binding: number | string): string {
+  return typeof binding === "number" ? `#${binding}` : binding;
+}
+
+export default function PlaceholderInspector({
+  inspection,
+}: PlaceholderInspectorProps) {
+  const { placeholders, unused } = inspection;
+  if (!placeholders.length && !unused.length) return null;
+
+  return (
+    <div className="grid gap-2">
+      <span className="text-sm font-medium text-foreground">Placeholders</span>
+      <div className="overflow-auto rounded-md border border-input">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-muted text-muted-foreground">
+            <tr>
+              <th className="px-2 py-1 font-medium">#</th>
+              <th className="px-2 py-1 font-medium">Line:Col</th>
+              <th className="px-2 py-1 font-medium">Context</th>
+              <th className="px-2 py-1 font-medium">Binds</th>
+              <th className="px-2 py-1 font-medium">Value</th>
+              <th className="px-2 py-1 font-medium">Type</th>
+              <th className="px-2 py-1 font-medium">Literal</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {placeholders.map((p) => (
+              <tr
+                key={p.ordinal}
+                className={cn(
+                  "border-t border-border",
+                  (!p.hasValue || p.error) &&
+                    "bg-destructive/10 text-destructive"
+                )}
+              >
+                <td className="px-2 py-1">{p.ordinal}</td>
+                <td className="px-2 py-1">
+                  {p.line}:{p.column}
+                </td>
+                <td className="px-2 py-1 whitespace-nowrap">
+                  {p.context}{" "}
+                  <span className="font-medium text-foreground">{p.text}</span>
+                </td>
+                <td className="px-2 py-1">{bindingLabel(p.binding)}</td>
+                <td className="max-w-40 truncate px-2 py-1">
+                  {p.hasValue ? stringifyJsonLossless(p.value) : "missing"}
+                </td>
+                <td className="px-2 py-1">{p.valueType}</td>
+                <td className="max-w-48 truncate px-2 py-1">
+                  {p.error ?? p.literal}
+                </td>
+              </tr>
+            ))}
+            {unused.map((u) => (
+              <tr
+                key={`unused-${u.binding}`}
+                className="border-t border-border bg-muted text-muted-foreground"
+              >
+                <td className="px-2 py-1">–</td>
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1 font-sans italic">
+                  not used by any placeholder
+                </td>
+                <td className="px-2 py-1">{bindingLabel(u.binding)}</td>
+                <td className="max-w-40 truncate px-2 py-1">
+                  {stringifyJsonLossless(u.value)}
+                </td>
+                <td className="px-2 py-1">{u.valueType}</td>
+                <td className="px-2 py-1" />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
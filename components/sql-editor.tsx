@@ -0,0 +1,250 @@
+"use client";
+
+import { Fragment, useMemo, useState, type ReactNode, type Ref } from "react";
+import { cn } from "@/lib/utils";
+import { stringifyJsonLossless } from "@/lib/lossless-json";
+import type { SqlDialect } from "@/lib/sql-dialects";
+import { tokenizeSql, type SqlToken } from "@/lib/sql-lexer";
+import type { PlaceholderInfo, PlaceholderInspection } from "@/lib/sql-merge";
+import { tokenClass } from "./sql-highlight";
+
+type SqlEditorProps = {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  dialect: SqlDialect;
+  // Ordinals, bound values and problems for the placeholder badges
+  inspection: PlaceholderInspection;
+  rows?: number;
+  ref?: Ref<HTMLTextAreaElement>;
+  "aria-describedby"?: string;
+};
+
+// Extra styling for part of the text, e.g. a squiggle or a matched bracket
+type Decoration = { start: number; end: number; className: string };
+
+const SQUIGGLE =
+  "underline decoration-wavy decoration-destructive underline-offset-4";
+const MATCHED_BRACKET = "rounded-sm bg-accent outline outline-ring/50";
+const BRACKETS: Record<string, string> = { "(": ")", "[": "]" };
+const MAX_BADGE_VALUE_LENGTH = 20;
+
+// Pairs up brackets outside strings and comments. Returns each bracket's
+// partner offset, and the offsets of brackets that have none.
+function matchBrackets(tokens: SqlToken[]): {
+  partners: Map<number, number>;
+  unmatched: number[];
+} {
+  const partners = new Map<number, number>();
+  const open: SqlToken[] = [];
+  const unmatched: number[] = [];
+  for (const token of tokens) {
+    if (token.type !== "operator") continue;
+    if (token.text in BRACKETS) {
+      open.push(token);
+    } else if (token.text === ")" || token.text === "]") {
+      const opener = open.pop();
+      if (opener && BRACKETS[opener.text] === token.text) {
+        partners.set(opener.start, token.start);
+        partners.set(token.start, opener.start);
+      } else {
+        if (opener) unmatched.push(opener.start);
+        unmatched.push(token.start);
+      }
+    }
+  }
+  unmatched.push(...open.map((t) => t.start));
+  return { partners, unmatched };
+}
+
+function badgeLabel(p: PlaceholderInfo): string {
+  if (!p.hasValue) return `${p.ordinal}: missing`;
+  if (p.error) return `${p.ordinal}: invalid`;
+  const value = stringifyJsonLossless(p.value);
+  return `${p.ordinal}: ${
+    value.length > MAX_BADGE_VALUE_LENGTH
+      ? `${value.slice(0, MAX_BADGE_VALUE_LENGTH)}…`
+      : value
+  }`;
+}
+
+// Renders a token, split wherever a decoration starts or ends inside it
+function renderToken(
+  token: SqlToken,
+  baseClass: string,
+  decorations: Decoration[]
+): ReactNode {
+  const cuts = new Set([token.start, token.end]);
+  for (const d of decorations) {
+    if (d.start > token.start && d.start < token.end) cuts.add(d.start);
+    if (d.end > token.start && d.end < token.end) cuts.add(d.end);
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    const className = cn(
+      baseClass,
+      ...decorations
+        .filter((d) => d.start < end && d.end > start)
+        .map((d) => d.className)
+    );
+    const text = token.text.slice(start - token.start, end - token.start);
+    return className ? (
+      <span key={start} className={className}>
+        {text}
+      </span>
+    ) : (
+      text
+    );
+  });
+}
+
+/**
+ * A textarea with line numbers, highlighting and bracket matching. The
+ * styled text is drawn underneath a transparent textarea, so typing,
+ * selection and undo are the browser's own. Each placeholder carries a badge
+ * with its ordinal and bound value; missing or invalid values, unclosed
+ * quotes and unmatched brackets are underlined.
+ */
+export default function SqlEditor({
+  id,
+  value,
+  onChange,
+  dialect,
+  inspection,
+  rows = 6,
+  ref,
+  "aria-describedby": describedBy,
+}: SqlEditorProps) {
+  const [caret, setCaret] = useState<number | null>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+
+  const tokens = useMemo(
+    () => tokenizeSql(value, { dialect }),
+    [value, dialect]
+  );
+  const brackets = useMemo(() => matchBrackets(tokens), [tokens]);
+  const lineCount = value.split("\n").length;
+
+  const decorations: Decoration[] = [];
+  for (const token of tokens) {
+    if (token.unterminated) {
+      // Just the opening quote or /*; the rest of the input is the token
+      const opener = token.type === "comment" ? 2 : 1;
+      decorations.push({
+        start: token.start,
+        end: token.start + opener,
+        className: SQUIGGLE,
+      });
+    }
+  }
+  for (const offset of brackets.unmatched) {
+    decorations.push({ start: offset, end: offset + 1, className: SQUIGGLE });
+  }
+  if (caret !== null) {
+    // The bracket just before the caret wins over the one just after it
+    const at = [caret - 1, caret].find((i) => brackets.partners.has(i));
+    if (at !== undefined) {
+      for (const offset of [at, brackets.partners.get(at)!]) {
+        decorations.push({
+          start: offset,
+          end: offset + 1,
+          className: MATCHED_BRACKET,
+        });
+      }
+    }
+  }
+
+  // Keyed by offset: variables like T-SQL's @id aren't inspected
+  const inspected = new Map(inspection.placeholders.map((p) => [p.start, p]));
+  const highlighted = tokens.map((token, i) => {
+    const p = inspected.get(token.start);
+    if (token.type !== "placeholder" || !p) {
+      return (
+        <Fragment key={token.start}>
+          {renderToken(token, tokenClass(tokens, i), decorations)}
+        </Fragment>
+      );
+    }
+    const problem = !p.hasValue || p.error;
+    return (
+      <span
+        key={token.start}
+        className={cn("relative text-code-keyword", problem && SQUIGGLE)}
+      >
+        {renderToken(token, "", decorations)}
+        <span
+          className={cn(
+            "absolute bottom-full left-0 whitespace-nowrap rounded-sm px-1 text-[10px] leading-3 not-italic",
+            problem
+              ? "bg-destructive/10 text-destructive"
+              : "bg-muted text-muted-foreground"
+          )}
+        >
+          {badgeLabel(p)}
+        </span>
+      </span>
+    );
+  });
+
+  const trackCaret = (textarea: HTMLTextAreaElement) =>
+    setCaret(
+      textarea.selectionStart === textarea.selectionEnd
+        ? textarea.selectionStart
+        : null
+    );
+
+  return (
+    <div className="flex w-full overflow-hidden rounded-md border border-input bg-background shadow-sm focus-within:ring-2 focus-within:ring-ring">
+      <div
+        aria-hidden
+        className="select-none overflow-hidden border-r border-border bg-muted px-2 py-4 text-right font-mono text-sm leading-6 text-muted-foreground"
+      >
+        <div style={{ transform: `translateY(${-scroll.top}px)` }}>
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i}>{i + 1}</div>
+          ))}
+        </div>
+      </div>
+      <div className="relative min-w-0 flex-1">
+        <pre
+          aria-hidden
+          className="pointer-events-none absolute inset-0 m-0 overflow-hidden px-3 py-4 font-mono text-sm leading-6 whitespace-pre text-foreground"
+        >
+          <code
+            className="block"
+            style={{
+              transform: `translate(${-scroll.left}px, ${-scroll.top}px)`,
+            }}
+          >
+            {highlighted}
+            {/* Keeps a trailing newline from collapsing the last line */}
+            {"\n"}
+          </code>
+        </pre>
+        <textarea
+          id={id}
+          ref={ref}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            trackCaret(e.target);
+          }}
+          onSelect={(e) => trackCaret(e.currentTarget)}
+          onBlur={() => setCaret(null)}
+          onScroll={(e) =>
+            setScroll({
+              top: e.currentTarget.scrollTop,
+              left: e.currentTarget.scrollLeft,
+            })
+          }
+          rows={rows}
+          wrap="off"
+          className="relative block w-full resize-y bg-transparent px-3 py-4 font-mono text-sm leading-6 whitespace-pre text-transparent caret-foreground selection:bg-accent/60 focus:outline-none"
+          aria-describedby={describedBy}
+          spellCheck={false}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { SqlToken, SqlTokenType } from "@/lib/sql-lexer";
+
+// Token colours shared by the SQL editor and the output view
+export const HIGHLIGHT_CLASSES: Partial<Record<SqlTokenType, string>> = {
+  keyword: "text-code-keyword font-medium",
+  identifier: "text-foreground",
+  string: "text-accent-foreground",
+  quotedIdentifier: "text-muted-foreground",
+  number: "text-secondary-foreground",
+  operator: "text-muted-foreground",
+  comment: "text-muted-foreground italic",
+};
+
+const FUNCTION_CLASS = "text-code-function";
+
+/**
+ * Class for `tokens[index]`. Identifiers directly followed by "(" are styled
+ * as function calls, e.g. count(*) or coalesce (a, b).
+ */
+export function tokenClass(tokens: SqlToken[], index: number): string {
+  const token = tokens[index];
+  if (token.type === "identifier") {
+    let next = index + 1;
+    while (
+      tokens[next]?.type === "whitespace" ||
+      tokens[next]?.type === "comment"
+    ) {
+      next++;
+    }
+    if (tokens[next]?.text === "(") return FUNCTION_CLASS;
+  }
+  return HIGHLIGHT_CLASSES[token.type] ?? "";
+}
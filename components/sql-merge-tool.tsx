@@ -1,537 +1,321 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
 import { ChevronDownIcon } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuTrigger,
   DropdownMenuContent,
+  DropdownMenuCheckboxItem,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
 } from "./ui/dropdown-menu";
-
-type MergeResult = {
-  result: string;
+import DiagnosticsList from "./diagnostics-list";
+import FormatSettingsPanel from "./format-settings-panel";
+import MergeHistoryPanel from "./merge-history-panel";
+import PlaceholderInspector from "./placeholder-inspector";
+import SqlEditor from "./sql-editor";
+import SqlOutput from "./sql-output";
+import TemplateLibraryPanel from "./template-library-panel";
+import { SQL_DIALECTS, type SqlDialect } from "@/lib/sql-dialects";
+import type { BeautifyOptions } from "@/lib/sql-formatter";
+import {
+  importQueryLog,
+  LOG_IMPORTERS,
+  splitQueryLog,
+} from "@/lib/log-importers";
+import {
+  loadBeautifyOptions,
+  loadPresets,
+  saveBeautifyOptions,
+  savePresets,
+  type FormatPreset,
+} from "@/lib/format-presets";
+import { stringifyJsonLossless } from "@/lib/lossless-json";
+import {
+  addHistoryEntry,
+  createHistoryEntry,
+  loadHistory,
+  loadHistoryLimit,
+  saveHistory,
+  saveHistoryLimit,
+  type HistoryEntry,
+} from "@/lib/merge-history";
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  loadTemplates,
+  saveTemplates,
+  type QueryTemplate,
+} from "@/lib/query-templates";
+import {
+  decodeShareFragment,
+  encodeShareFragment,
+  queryFromSearchParams,
+  type SharedQuery,
+} from "@/lib/share-link";
+import {
+  ARRAY_MODES,
+  checkParamSet,
+  countPlaceholders,
+  inspectPlaceholders,
+  formatMergedSql,
+  hasErrors,
+  JSON_CASTS,
+  mergeAndFormatSql,
+  mergeSql,
+  parameterizeSql,
+  parseSqlParams,
+  PLACEHOLDER_STYLES,
+  relocateLiterals,
+  type ArrayMode,
+  type Diagnostic,
+  type DiagnosticSeverity,
+  type FormatMode,
+  type MergedLiteral,
+  type MergeOptions,
+  type ParamSet,
+  type PlaceholderStyle,
+  type SourceRange,
+} from "@/lib/sql-merge";
+
+// One merged query in batch mode: a log entry or a parameter set
+type BatchEntry = {
+  source: string;
+  // Detected log format or parameter set name
+  label?: string;
+  output: string;
   error?: string;
-  usedCount: number;
-  placeholderCount: number;
+  warnings: string[];
 };
 
-function escapeSqlValue(v: unknown): string {
-  if (v === null || v === undefined) return "NULL";
-  if (typeof v === "number" && Number.isFinite(v)) return String(v);
-  if (typeof v === "boolean") return v ? "TRUE" : "FALSE";
-  // Dates or other toString-able types handled as strings
-  const s = String(v);
-  // Double the single quotes inside the string: O'Reilly -> O''Reilly
-  const escaped = s.replace(/'/g, "''");
-  return `'${escaped}'`;
-}
-
-function countPlaceholders(sql: string): number {
-  let inSingle = false;
-  let inDouble = false;
-  let inBack = false;
-  let count = 0;
-  for (let i = 0; i < sql.length; i++) {
-    const ch = sql[i];
-    const next = sql[i + 1];
-
-    if (!inDouble && !inBack && ch === "'") {
-      // Enter/exit single quote; handle escaped '' inside singles
-      if (inSingle && next === "'") {
-        i++; // skip escaped quote
-        continue;
-      }
-      inSingle = !inSingle;
-      continue;
-    }
-
-    if (!inSingle && !inBack && ch === '"') {
-      if (inDouble && next === '"') {
-        i++;
-        continue;
-      }
-      inDouble = !inDouble;
-      continue;
-    }
-
-    if (!inSingle && !inDouble && ch === "`") {
-      if (inBack && next === "`") {
-        i++;
-        continue;
-      }
-      inBack = !inBack;
-      continue;
-    }
-
-    if (!inSingle && !inDouble && !inBack && ch === "?") {
-      count++;
-    }
-  }
-  return count;
-}
-
-function mergeSql(sql: string, params: unknown[]): MergeResult {
-  let inSingle = false;
-  let inDouble = false;
-  let inBack = false;
-  let out = "";
-  let pi = 0;
-
-  const placeholderCount = countPlaceholders(sql);
-
-  for (let i = 0; i < sql.length; i++) {
-    const ch = sql[i];
-    const next = sql[i + 1];
-
-    if (!inDouble && !inBack && ch === "'") {
-      if (inSingle && next === "'") {
-        out += "''";
-        i++;
-        continue;
-      }
-      inSingle = !inSingle;
-      out += ch;
-      continue;
-    }
-
-    if (!inSingle && !inBack && ch === '"') {
-      if (inDouble && next === '"') {
-        out += '""';
-        i++;
-        continue;
-      }
-      inDouble = !inDouble;
-      out += ch;
-      continue;
-    }
-
-    if (!inSingle && !inDouble && ch === "`") {
-      if (inBack && next === "`") {
-        out += "``";
-        i++;
-        continue;
-      }
-      inBack = !inBack;
-      out += ch;
-      continue;
-    }
-
-    if (!inSingle && !inDouble && !inBack && ch === "?") {
-      if (pi >= params.length) {
-        // Not enough params; leave '?' and report error at end
-        out += "?";
-      } else {
-        out += escapeSqlValue(params[pi++]);
-      }
-      continue;
-    }
-
-    out += ch;
-  }
-
-  if (pi < params.length) {
-    return {
-      result: out,
-      error: `Too many parameters: provided ${params.length}, used ${pi}.`,
-      usedCount: pi,
-      placeholderCount,
-    };
-  }
-  if (pi < placeholderCount) {
-    return {
-      result: out,
-      error: `Not enough parameters: placeholders=${placeholderCount}, provided=${params.length}.`,
-      usedCount: pi,
-      placeholderCount,
-    };
-  }
-  return { result: out, usedCount: pi, placeholderCount };
-}
-
-function formatSql(input: string): string {
-  if (!input) return "";
-
-  // First pass: uppercase SQL keywords only outside of quotes
-  const keywords = new Set([
-    "select",
-    "from",
-    "where",
-    "group",
-    "by",
-    "having",
-    "order",
-    "limit",
-    "offset",
-    "join",
-    "left",
-    "right",
-    "inner",
-    "outer",
-    "cross",
-    "on",
-    "and",
-    "or",
-    "union",
-    "all",
-    "into",
-    "values",
-    "set",
-    "update",
-    "insert",
-    "delete",
-    "distinct",
-    "as",
-    "case",
-    "when",
-    "then",
-    "end",
-    "is",
-    "null",
-    "like",
-    "in",
-    "exists",
-    "not",
-    "between",
-    "top",
-  ]);
-
-  let inSingle = false;
-  let inDouble = false;
-  let inBack = false;
-  let out = "";
-  let word = "";
-
-  const flushWord = () => {
-    if (word) {
-      const lower = word.toLowerCase();
-      out += keywords.has(lower) ? word.toUpperCase() : word;
-      word = "";
-    }
-  };
-
-  for (let i = 0; i < input.length; i++) {
-    const ch = input[i];
-    const next = input[i + 1];
-
-    if (!inDouble && !inBack && ch === "'") {
-      flushWord();
-      if (inSingle && next === "'") {
-        out += "''";
-        i++;
-        continue;
-      }
-      inSingle = !inSingle;
-      out += ch;
-      continue;
-    }
-
-    if (!inSingle && !inBack && ch === '"') {
-      flushWord();
-      if (inDouble && next === '"') {
-        out += '""';
-        i++;
-        continue;
-      }
-      inDouble = !inDouble;
-      out += ch;
-      continue;
-    }
-
-    if (!inSingle && !inDouble && ch === "`") {
-      flushWord();
-      if (inBack && next === "`") {
-        out += "``";
-        i++;
-        continue;
-      }
-      inBack = !inBack;
-      out += ch;
-      continue;
-    }
-
-    if (!inSingle && !inDouble && !inBack && /[A-Za-z]/.test(ch)) {
-      word += ch;
-    } else {
-      flushWord();
-      out += ch;
-    }
-  }
-  flushWord();
-
-  // Second pass: whitespace normalization and line breaks before major clauses.
-  let s = out
-    // collapse spaces/tabs but keep newlines
-    .replace(/[ \t]+/g, " ")
-    .replace(/\s*\n\s*/g, "\n")
-    .trim();
-
-  // Insert newlines before major clauses (longer phrases first)
-  s = s
-    .replace(/\s+(UNION\s+ALL)\b/g, "\n$1")
-    .replace(/\s+\b(LEFT\s+OUTER\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(RIGHT\s+OUTER\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(FULL\s+OUTER\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(INNER\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(LEFT\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(RIGHT\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(OUTER\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(CROSS\s+JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(JOIN)\b/g, "\n$1")
-    .replace(/\s+\b(GROUP\s+BY)\b/g, "\n$1")
-    .replace(/\s+\b(ORDER\s+BY)\b/g, "\n$1")
-    .replace(/\s+\b(HAVING)\b/g, "\n$1")
-    .replace(/\s+\b(WHERE)\b/g, "\n$1")
-    .replace(/\s+\b(FROM)\b/g, "\n$1")
-    .replace(/\s+\b(UNION)\b/g, "\n$1")
-    .replace(/\s+\b(LIMIT)\b/g, "\n$1")
-    .replace(/\s+\b(OFFSET)\b/g, "\n$1");
-
-  // Put AND/OR on new lines with basic indentation (outside of strings due to first-pass capitalization)
-  s = s.replace(/\s+\b(AND|OR)\b/g, "\n  $1");
-
-  // Neaten multiple consecutive newlines
-  s = s.replace(/\n{3,}/g, "\n\n");
-
-  return s;
-}
-
-function escapeHtml(s: string): string {
-  return s
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
+// Batch entries show plain messages: their SQL isn't in the editor to jump to
+function messagesOf(
+  diagnostics: Diagnostic[],
+  severity: DiagnosticSeverity
+): string[] {
+  return diagnostics
+    .filter((d) => d.severity === severity)
+    .map((d) => d.message);
 }
 
-function highlightSqlHtml(input: string): string {
-  if (!input) return "";
-
-  const keywords = new Set([
-    "select",
-    "from",
-    "where",
-    "group",
-    "by",
-    "having",
-    "order",
-    "limit",
-    "offset",
-    "join",
-    "left",
-    "right",
-    "inner",
-    "outer",
-    "cross",
-    "on",
-    "and",
-    "or",
-    "union",
-    "all",
-    "into",
-    "values",
-    "set",
-    "update",
-    "insert",
-    "delete",
-    "distinct",
-    "as",
-    "case",
-    "when",
-    "then",
-    "end",
-    "is",
-    "null",
-    "like",
-    "in",
-    "exists",
-    "not",
-    "between",
-    "top",
-  ]);
-
-  let out = "";
-  let word = "";
-  let inSingle = false;
-  let inDouble = false;
-  let inBack = false;
-
-  const flushWord = () => {
-    if (!word) return;
-    const lower = word.toLowerCase();
-    if (keywords.has(lower)) {
-      out += `<span class="text-code-keyword font-medium">${escapeHtml(
-        word.toUpperCase()
-      )}</span>`;
-    } else {
-      out += escapeHtml(word);
-    }
-    word = "";
-  };
-
-  for (let i = 0; i < input.length; i++) {
-    const ch = input[i];
-    const next = input[i + 1] ?? "";
-
-    // String literals: single quotes
-    if (!inDouble && !inBack && ch === "'") {
-      flushWord();
-      // open/close single string; handle escaped ''
-      out += `<span class="text-accent-foreground">`;
-      out += escapeHtml("'");
-      inSingle = !inSingle;
-      while (inSingle && ++i < input.length) {
-        const c = input[i];
-        const n = input[i + 1] ?? "";
-        if (c === "'" && n === "'") {
-          out += escapeHtml("''");
-          i++;
-          continue;
-        }
-        if (c === "'") {
-          out += escapeHtml("'");
-          i++;
-          inSingle = false;
-          break;
-        }
-        out += escapeHtml(c);
-      }
-      out += `</span>`;
-      continue;
-    }
-
-    // Double-quoted identifiers/strings (dialect-dependent)
-    if (!inSingle && !inBack && ch === '"') {
-      flushWord();
-      out += `<span class="text-muted-foreground">`;
-      out += escapeHtml('"');
-      inDouble = !inDouble;
-      while (inDouble && ++i < input.length) {
-        const c = input[i];
-        const n = input[i + 1] ?? "";
-        if (c === '"' && n === '"') {
-          out += escapeHtml('""');
-          i++;
-          continue;
-        }
-        if (c === '"') {
-          out += escapeHtml('"');
-          i++;
-          inDouble = false;
-          break;
-        }
-        out += escapeHtml(c);
-      }
-      out += `</span>`;
-      continue;
-    }
-
-    // Backtick identifiers
-    if (!inSingle && !inDouble && ch === "`") {
-      flushWord();
-      out += `<span class="text-muted-foreground">`;
-      out += escapeHtml("`");
-      inBack = !inBack;
-      while (inBack && ++i < input.length) {
-        const c = input[i];
-        const n = input[i + 1] ?? "";
-        if (c === "`" && n === "`") {
-          out += escapeHtml("``");
-          i++;
-          continue;
-        }
-        if (c === "`") {
-          out += escapeHtml("`");
-          i++;
-          inBack = false;
-          break;
-        }
-        out += escapeHtml(c);
-      }
-      out += `</span>`;
-      continue;
-    }
-
-    // Outside of quoted contexts
-    if (!inSingle && !inDouble && !inBack) {
-      // Numbers: simple integer/float
-      if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(next))) {
-        flushWord();
-        let num = ch;
-        let j = i + 1;
-        while (j < input.length && /[0-9_.]/.test(input[j])) j++;
-        num = input.slice(i, j);
-        out += `<span class="text-secondary-foreground">${escapeHtml(
-          num
-        )}</span>`;
-        i = j - 1;
-        continue;
-      }
-      // Words (letters/underscore)
-      if (/[A-Za-z_]/.test(ch)) {
-        word += ch;
-        continue;
-      }
-      // Boundary/non-word char
-      flushWord();
-      out += escapeHtml(ch);
-      continue;
-    }
-
-    // Fallback (shouldn't reach due to in-quote handlers)
-    out += escapeHtml(ch);
-  }
-
-  flushWord();
-  return out;
+// Joins merged queries into one script, one statement per `;`
+function joinStatements(statements: string[]): string {
+  return statements.map((s) => `${s.replace(/;\s*$/, "")};`).join("\n\n");
 }
 
 export default function SqlMergeTool() {
   const [sql, setSql] = useState<string>(
     "SELECT * FROM abc WHERE abc.id = ? AND abc.anotherId IN (?, ?)"
   );
-  const [paramsText, setParamsText] = useState<string>('["784", 123, 456]');
+  const [paramSets, setParamSets] = useState<ParamSet[]>([
+    { name: "default", params: '["784", 123, 456]' },
+  ]);
+  const [activeSet, setActiveSet] = useState<number>(0);
+  // The Parameters box edits the active set
+  const paramsText = paramSets[activeSet]?.params ?? "";
+  const setParamsText = (params: string) =>
+    setParamSets((sets) =>
+      sets.map((set, i) => (i === activeSet ? { ...set, params } : set))
+    );
   const [jsonInput, setJsonInput] = useState<string>("");
+  // Importer picked in the format menu; empty means auto-detect
+  const [importerId, setImporterId] = useState<string>("");
+  const [importedFormat, setImportedFormat] = useState<string>("");
+  const [batch, setBatch] = useState<BatchEntry[]>([]);
+  // Index of the batch entry just copied, or "all"
+  const [batchCopied, setBatchCopied] = useState<number | "all" | null>(null);
   const [merged, setMerged] = useState<string>("");
+  // Where the bound values are in `merged`
+  const [mergedLiterals, setMergedLiterals] = useState<MergedLiteral[]>([]);
   const [formatted, setFormatted] = useState<string>("");
+  // Input problems that stop a merge from running, e.g. unparseable JSON
   const [error, setError] = useState<string>("");
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const sqlRef = useRef<HTMLTextAreaElement>(null);
   const [copied, setCopied] = useState<boolean>(false);
-  const [formatMode, setFormatMode] = useState<"beautify" | "minify">(
-    "beautify"
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  // Read lazily: storage is client-only, and nothing from it is rendered
+  // until the panel is opened, so the server render still matches
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [historyLimit, setHistoryLimit] = useState<number>(loadHistoryLimit);
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
+  // User templates; the built-in examples are never stored
+  const [templates, setTemplates] = useState<QueryTemplate[]>(loadTemplates);
+  const [templatesOpen, setTemplatesOpen] = useState<boolean>(false);
+  const [formatMode, setFormatMode] = useState<FormatMode>("beautify");
+  const [beautifyOptions, setBeautifyOptions] =
+    useState<BeautifyOptions>(loadBeautifyOptions);
+  // User presets; the built-in ones are never stored
+  const [formatPresets, setFormatPresets] =
+    useState<FormatPreset[]>(loadPresets);
+  const [formatSettingsOpen, setFormatSettingsOpen] = useState<boolean>(false);
+  const [dialect, setDialect] = useState<SqlDialect>("generic");
+  const [arrayMode, setArrayMode] = useState<ArrayMode>("list");
+  const [jsonCast, setJsonCast] = useState<boolean>(false);
+  const [placeholderStyle, setPlaceholderStyle] =
+    useState<PlaceholderStyle>("?");
+  const mergeOptions: MergeOptions = {
+    dialect,
+    arrays: arrayMode,
+    jsonCast,
+    placeholderStyle,
+    format: formatMode,
+    beautify: beautifyOptions,
+  };
+
+  const placeholderCount = useMemo(
+    () => countPlaceholders(sql, dialect),
+    [sql, dialect]
+  );
+  const inspection = useMemo(() => {
+    const parsed = parseSqlParams(paramsText);
+    return inspectPlaceholders(
+      sql,
+      "params" in parsed ? parsed.params : undefined,
+      { dialect, arrays: arrayMode, jsonCast }
+    );
+  }, [sql, paramsText, dialect, arrayMode, jsonCast]);
+  const paramSetProblems = useMemo(
+    () => paramSets.map((set) => checkParamSet(sql, set, dialect)),
+    [sql, paramSets, dialect]
+  );
+  const outputLiterals = useMemo(
+    () => relocateLiterals(merged, mergedLiterals, formatted, dialect),
+    [merged, mergedLiterals, formatted, dialect]
   );
 
-  const placeholderCount = useMemo(() => countPlaceholders(sql), [sql]);
-  const highlighted = useMemo(() => highlightSqlHtml(formatted), [formatted]);
+  const updateHistory = (next: HistoryEntry[]) => {
+    setHistory(next);
+    saveHistory(next);
+  };
 
-  function parseParams(text: string): unknown[] | { error: string } {
-    try {
-      const parsed = JSON.parse(text);
-      if (!Array.isArray(parsed)) {
-        return { error: "Parameters input must be a JSON array." };
-      }
-      return parsed;
-    } catch (e) {
-      return {
-        error:
-          'Invalid JSON. Ensure it\'s a valid array like: ["784", 123, 456]',
-      };
-    }
+  function recordHistory(
+    sqlText: string,
+    paramsInput: string,
+    sqlDialect: SqlDialect = dialect
+  ) {
+    const entry = createHistoryEntry(sqlText, paramsInput, sqlDialect);
+    updateHistory(addHistoryEntry(history, entry, historyLimit));
   }
 
-  const onMerge = async () => {
+  const onRestoreHistory = async (entry: HistoryEntry) => {
+    setSql(entry.sql);
+    setParamsText(entry.params);
+    setDialect(entry.dialect);
+    setHistoryOpen(false);
+    await onMerge(
+      { ...mergeOptions, dialect: entry.dialect },
+      entry.sql,
+      entry.params
+    );
+  };
+
+  const onHistoryLimitChange = (limit: number) => {
+    setHistoryLimit(limit);
+    saveHistoryLimit(limit);
+    if (history.length > limit) updateHistory(history.slice(0, limit));
+  };
+
+  const onMerge = async (
+    options: MergeOptions = mergeOptions,
+    sqlText: string = sql,
+    paramsInput: string = paramsText
+  ) => {
     setCopied(false);
-    const parsed = parseParams(paramsText);
-    if (Array.isArray(parsed)) {
-      const r = mergeSql(sql, parsed);
+    const parsed = parseSqlParams(paramsInput);
+    if ("params" in parsed) {
+      const r = mergeSql(sqlText, parsed.params, options);
       setMerged(r.result);
-      await updateFormatted(r.result);
-      setError(r.error || "");
+      setMergedLiterals(r.literals);
+      await updateFormatted(r.result, options);
+      setError("");
+      setDiagnostics(r.diagnostics);
+      if (!hasErrors(r.diagnostics)) {
+        recordHistory(sqlText, paramsInput, options.dialect);
+      }
     } else {
       setMerged("");
       setFormatted("");
       setError(parsed.error);
+      setDiagnostics([]);
+    }
+  };
+
+  const onExtractParams = (style: PlaceholderStyle = placeholderStyle) => {
+    setCopied(false);
+    const r = parameterizeSql(sql, {
+      ...mergeOptions,
+      placeholderStyle: style,
+    });
+    if ("error" in r) {
+      setError(r.error);
+      return;
+    }
+    setSql(r.sql);
+    setParamsText(stringifyJsonLossless(r.params));
+    setMerged("");
+    setFormatted("");
+    setError("");
+    setDiagnostics([]);
+  };
+
+  const onRestoreShared = async (shared: SharedQuery) => {
+    setSql(shared.sql);
+    setParamsText(shared.params);
+    if (shared.dialect) setDialect(shared.dialect);
+    if (shared.format) setFormatMode(shared.format);
+    await onMerge(
+      {
+        ...mergeOptions,
+        dialect: shared.dialect ?? dialect,
+        format: shared.format ?? formatMode,
+      },
+      shared.sql,
+      shared.params
+    );
+  };
+
+  // The load-time restore below runs once but should see current state
+  const restoreSharedRef = useRef(onRestoreShared);
+  useEffect(() => {
+    restoreSharedRef.current = onRestoreShared;
+  });
+
+  // Restore a shared link (#q=...) or a ?sql=...&values=... prefill on load.
+  // Only on first load; later edits shouldn't be overwritten by the URL.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const shared =
+        (await decodeShareFragment(window.location.hash)) ??
+        queryFromSearchParams(new URLSearchParams(window.location.search));
+      if (shared && !cancelled) await restoreSharedRef.current(shared);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const onCopyLink = async () => {
+    const fragment = await encodeShareFragment({
+      sql,
+      params: paramsText,
+      dialect,
+      format: formatMode,
+    });
+    const url = `${window.location.origin}${window.location.pathname}#${fragment}`;
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch {
+      // ignore clipboard errors
     }
   };
 
@@ -545,363 +329,383 @@ export default function SqlMergeTool() {
     }
   };
 
-  const onLoadExample = () => {
-    setSql(
-      [
-        "SELECT u.id, u.name, o.id AS order_id, SUM(oi.qty * oi.price) AS total",
-        "FROM users u",
-        "JOIN orders o ON o.user_id = u.id",
-        "LEFT JOIN order_items oi ON oi.order_id = o.id",
-        "WHERE u.status = ?",
-        "  AND o.created_at BETWEEN ? AND ?",
-        "  AND o.state IN (?, ?, ?)",
-        "GROUP BY u.id, u.name, o.id",
-        "HAVING SUM(oi.qty * oi.price) > ?",
-        "ORDER BY total DESC, u.name ASC",
-        "LIMIT ?",
-      ].join(" ")
-    );
-    setParamsText(
-      '["active", "2024-01-01", "2024-12-31", "processing", "shipped", "delivered", 1000, 50]'
-    );
-    setMerged("");
-    setFormatted("");
-    setError("");
-    setCopied(false);
+  const updateTemplates = (next: QueryTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
   };
 
-  const onLoadAdvancedExample = () => {
-    setSql(
-      [
-        "WITH recent_orders AS (",
-        "  SELECT o.id, o.user_id, SUM(oi.qty * oi.price) AS total",
-        "  FROM orders o",
-        "  JOIN order_items oi ON oi.order_id = o.id",
-        "  WHERE o.created_at >= ?",
-        "  GROUP BY o.id, o.user_id",
-        ")",
-        "SELECT u.id, u.name, ro.total,",
-        "  COUNT(*) OVER (PARTITION BY u.id) AS order_count",
-        "FROM users u",
-        "JOIN recent_orders ro ON ro.user_id = u.id",
-        "LEFT JOIN payments p ON p.order_id = ro.id AND p.status IN (?, ?)",
-        "WHERE u.region = ?",
-        "  AND ro.total > ?",
-        "  AND u.name LIKE ?",
-        "  AND u.id IN (?, ?)",
-        "GROUP BY u.id, u.name, ro.total",
-        "HAVING COUNT(p.id) >= ?",
-        "ORDER BY ro.total DESC, u.name ASC",
-        "LIMIT ?",
-        "OFFSET ?",
-      ].join(" ")
-    );
-    setParamsText(
-      '["2025-01-01", "succeeded", "pending", "NA", 500, "%son%", 101, 202, 1, 25, 0]'
-    );
+  const onLoadTemplate = (template: QueryTemplate) => {
+    setSql(template.sql);
+    setParamSets(template.paramSets);
+    setActiveSet(0);
+    if (template.dialect) setDialect(template.dialect);
+    setTemplatesOpen(false);
     setMerged("");
     setFormatted("");
     setError("");
+    setDiagnostics([]);
     setCopied(false);
   };
 
+  const onSaveTemplate = () => {
+    const firstLine = sql.split("\n").find((l) => l.trim()) ?? "";
+    const template = createTemplate({
+      name: firstLine.trim().slice(0, 40) || "Untitled",
+      tags: [],
+      sql,
+      paramSets,
+      dialect,
+    });
+    updateTemplates([...templates, template]);
+    // Open the library so the new template can be named and tagged
+    setHistoryOpen(false);
+    setFormatSettingsOpen(false);
+    setTemplatesOpen(true);
+  };
+
   const onClear = () => {
     setSql("");
-    setParamsText("");
+    setParamSets([{ name: "default", params: "" }]);
+    setActiveSet(0);
     setJsonInput("");
+    setImportedFormat("");
+    setBatch([]);
     setMerged("");
     setFormatted("");
     setError("");
+    setDiagnostics([]);
     setCopied(false);
   };
 
-  const onLoadFromJson = async () => {
-    try {
-      const parsed = JSON.parse(jsonInput);
+  // Fills the inputs from a pasted log excerpt and merges straight away.
+  // Returns the merge result, or undefined when the log wasn't recognized.
+  const loadFromLog = async () => {
+    setCopied(false);
+    const imported = importQueryLog(jsonInput, importerId || undefined);
+    if (!imported) {
+      const picked = LOG_IMPORTERS.find((i) => i.id === importerId);
+      setImportedFormat("");
+      setError(
+        picked
+          ? `Input doesn't look like a ${picked.label} log entry.`
+          : `Couldn't recognize the log format. Supported: ${LOG_IMPORTERS.map(
+              (i) => i.label
+            ).join(", ")}.`
+      );
+      return undefined;
+    }
 
-      if (!parsed.sql || !parsed.values) {
-        setError("JSON must contain 'sql' and 'values' properties");
-        return;
-      }
+    setImportedFormat(imported.importer.label);
+    setSql(imported.sql);
+    setParamsText(stringifyJsonLossless(imported.params));
 
-      // JSON.parse already handles unescaping, so we can use the values directly
-      const newSql = parsed.sql;
-      const newParams = parsed.values;
+    // Automatically merge after loading
+    const r = mergeSql(imported.sql, imported.params, mergeOptions);
+    setMerged(r.result);
+    setMergedLiterals(r.literals);
+    await updateFormatted(r.result);
+    setError("");
+    setDiagnostics(r.diagnostics);
+    if (!hasErrors(r.diagnostics)) {
+      recordHistory(imported.sql, stringifyJsonLossless(imported.params));
+    }
+    return r;
+  };
 
-      setSql(newSql);
-      setParamsText(JSON.stringify(newParams));
+  const onLoadFromLogAndCopy = async () => {
+    const r = await loadFromLog();
 
-      // Automatically merge after loading
-      setCopied(false);
-      if (Array.isArray(newParams)) {
-        const r = mergeSql(newSql, newParams);
-        setMerged(r.result);
-        await updateFormatted(r.result);
-        setError(r.error || "");
+    // Copy to clipboard
+    if (r && !hasErrors(r.diagnostics)) {
+      const formattedOutput = await formatMergedSql(r.result, mergeOptions);
+
+      try {
+        await navigator.clipboard.writeText(formattedOutput);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      } catch {
+        // ignore clipboard errors
       }
-    } catch (e) {
-      setError("Invalid JSON format. Please check your input.");
     }
   };
 
-  const onLoadFromJsonAndCopy = async () => {
-    try {
-      const parsed = JSON.parse(jsonInput);
-
-      if (!parsed.sql || !parsed.values) {
-        setError("JSON must contain 'sql' and 'values' properties");
-        return;
+  // Merges every entry of a multi-query excerpt (NDJSON or a log) on its own
+  const onMergeBatch = async () => {
+    setBatchCopied(null);
+    const picked = importerId || undefined;
+    const entries: BatchEntry[] = [];
+    for (const source of splitQueryLog(jsonInput, picked)) {
+      const imported = importQueryLog(source, picked);
+      if (!imported) {
+        entries.push({
+          source,
+          output: "",
+          error: "Couldn't recognize this entry.",
+          warnings: [],
+        });
+        continue;
       }
+      const r = await mergeAndFormatSql(
+        imported.sql,
+        imported.params,
+        mergeOptions
+      );
+      entries.push({
+        source,
+        label: imported.importer.label,
+        output: r.formatted,
+        error: messagesOf(r.diagnostics, "error").join(" ") || undefined,
+        warnings: messagesOf(r.diagnostics, "warning"),
+      });
+    }
+    setBatch(entries);
+  };
 
-      // JSON.parse already handles unescaping, so we can use the values directly
-      const newSql = parsed.sql;
-      const newParams = parsed.values;
-
-      setSql(newSql);
-      setParamsText(JSON.stringify(newParams));
+  const onAddParamSet = () => {
+    const names = new Set(paramSets.map((set) => set.name));
+    let n = paramSets.length + 1;
+    while (names.has(`set ${n}`)) n++;
+    // Start from a copy of the current values; usually only a few change
+    setParamSets([...paramSets, { name: `set ${n}`, params: paramsText }]);
+    setActiveSet(paramSets.length);
+  };
 
-      // Automatically merge after loading
-      if (Array.isArray(newParams)) {
-        const r = mergeSql(newSql, newParams);
-        setMerged(r.result);
-        await updateFormatted(r.result);
-        setError(r.error || "");
+  const onRemoveParamSet = (index: number) => {
+    setParamSets(paramSets.filter((_, i) => i !== index));
+    setActiveSet(Math.max(0, activeSet >= index ? activeSet - 1 : activeSet));
+  };
 
-        // Copy to clipboard
-        if (!r.error) {
-          const formattedOutput =
-            formatMode === "beautify"
-              ? await beautifyWithPMTSF(r.result)
-              : minifySqlPreserveStrings(r.result);
+  const onRenameParamSet = (name: string) => {
+    setParamSets(
+      paramSets.map((set, i) => (i === activeSet ? { ...set, name } : set))
+    );
+  };
 
-          try {
-            await navigator.clipboard.writeText(formattedOutput);
-            setCopied(true);
-            setTimeout(() => setCopied(false), 1500);
-          } catch {
-            // ignore clipboard errors
-          }
-        }
+  // One merged statement per parameter set, listed like a batch
+  const onMergeAllSets = async () => {
+    setBatchCopied(null);
+    const entries: BatchEntry[] = [];
+    for (const set of paramSets) {
+      const parsed = parseSqlParams(set.params);
+      if ("error" in parsed) {
+        entries.push({
+          source: set.params,
+          label: set.name,
+          output: "",
+          error: parsed.error,
+          warnings: [],
+        });
+        continue;
       }
-    } catch (e) {
-      setError("Invalid JSON format. Please check your input.");
+      const r = await mergeAndFormatSql(sql, parsed.params, mergeOptions);
+      entries.push({
+        source: set.params,
+        label: set.name,
+        output: r.formatted,
+        error: messagesOf(r.diagnostics, "error").join(" ") || undefined,
+        warnings: messagesOf(r.diagnostics, "warning"),
+      });
     }
+    setBatch(entries);
   };
 
-  async function beautifyWithPMTSF(sql: string): Promise<string> {
-    if (!sql) return "";
+  const onCopyBatch = async (index: number | "all") => {
+    const text =
+      index === "all"
+        ? joinStatements(batch.filter((e) => !e.error).map((e) => e.output))
+        : batch[index].output;
     try {
-      // Dynamic import supports Next.js's inferred deps; handle CJS interop
-      const mod: any = await import("poor-mans-t-sql-formatter");
-      const lib: any = mod?.default ?? mod;
-
-      const options = {
-        // Readability-focused settings similar to beautifycode.net
-        indent: "  ",
-        spacesPerTab: 2,
-        maxLineWidth: 100,
-        statementBreaks: 2,
-        clauseBreaks: 1,
-        expandCommaLists: true,
-        trailingCommas: true,
-        spaceAfterExpandedComma: true,
-        expandBooleanExpressions: true,
-        expandCaseStatements: true,
-        expandBetweenConditions: true,
-        expandInLists: true,
-        breakJoinOnSections: true,
-        uppercaseKeywords: true,
-        coloring: false, // we already render our own highlight preview
-        // Leave keywordStandardization off to respect non-T-SQL dialects
-      };
-
-      const result = lib?.formatSql ? lib.formatSql(sql, options) : null;
-      return typeof result?.text === "string" ? result.text : sql;
+      await navigator.clipboard.writeText(text);
+      setBatchCopied(index);
+      setTimeout(() => setBatchCopied(null), 1500);
     } catch {
-      // Fallback to local formatter if the package isn't available
-      return formatSql(sql);
+      // ignore clipboard errors
     }
-  }
-
-  function minifySqlPreserveStrings(input: string): string {
-    if (!input) return "";
-    let out = "";
-    let inSingle = false;
-    let inDouble = false;
-    let inBack = false;
-    let i = 0;
-    let prevWasSpace = false;
-
-    const appendSpace = () => {
-      const prev = out[out.length - 1];
-      // avoid spaces right after '(' or ',' and before ')' or ','
-      if (prev === "(" || prev === "," || !prev) return;
-      out += " ";
-    };
-
-    while (i < input.length) {
-      const ch = input[i];
-      const next = input[i + 1] ?? "";
-
-      // single-quoted string
-      if (!inDouble && !inBack && ch === "'") {
-        inSingle = true;
-        out += "'";
-        i++;
-        while (i < input.length && inSingle) {
-          const c = input[i];
-          const n = input[i + 1] ?? "";
-          if (c === "'" && n === "'") {
-            out += "''";
-            i += 2;
-            continue;
-          }
-          if (c === "'") {
-            out += "'";
-            i++;
-            inSingle = false;
-            break;
-          }
-          out += c;
-          i++;
-        }
-        prevWasSpace = false;
-        continue;
-      }
+  };
 
-      // double-quoted string/identifier
-      if (!inSingle && !inBack && ch === '"') {
-        inDouble = true;
-        out += '"';
-        i++;
-        while (i < input.length && inDouble) {
-          const c = input[i];
-          const n = input[i + 1] ?? "";
-          if (c === '"' && n === '"') {
-            out += '""';
-            i += 2;
-            continue;
-          }
-          if (c === '"') {
-            out += '"';
-            i++;
-            inDouble = false;
-            break;
-          }
-          out += c;
-          i++;
-        }
-        prevWasSpace = false;
-        continue;
-      }
+  // Selects a diagnostic's range in the SQL box. Ranges can be stale if the
+  // SQL was edited since the merge, so they're clamped to the current text.
+  const onJumpToSql = (range: SourceRange) => {
+    const textarea = sqlRef.current;
+    if (!textarea) return;
+    const end = Math.min(range.end, sql.length);
+    textarea.focus();
+    textarea.setSelectionRange(Math.min(range.start, end), end);
+  };
 
-      // backtick identifier
-      if (!inSingle && !inDouble && ch === "`") {
-        inBack = true;
-        out += "`";
-        i++;
-        while (i < input.length && inBack) {
-          const c = input[i];
-          const n = input[i + 1] ?? "";
-          if (c === "`" && n === "`") {
-            out += "``";
-            i += 2;
-            continue;
-          }
-          if (c === "`") {
-            out += "`";
-            i++;
-            inBack = false;
-            break;
-          }
-          out += c;
-          i++;
-        }
-        prevWasSpace = false;
-        continue;
-      }
+  async function updateFormatted(
+    newMerged: string,
+    options: MergeOptions = mergeOptions
+  ) {
+    setFormatted(await formatMergedSql(newMerged, options));
+  }
 
-      // collapse whitespace outside quotes
-      if (!inSingle && !inDouble && !inBack && /\s/.test(ch)) {
-        if (!prevWasSpace) {
-          // peek next non-space
-          let k = i + 1;
-          let nextNon = "";
-          while (k < input.length && /\s/.test(input[k])) k++;
-          nextNon = input[k] ?? "";
-          if (nextNon !== ")" && nextNon !== ",") {
-            appendSpace();
-          }
-          prevWasSpace = true;
-        }
-        i++;
-        continue;
-      }
+  const onDialectChange = async (next: SqlDialect) => {
+    setDialect(next);
+    // Re-render existing output so its literals match the new dialect
+    if (merged) await onMerge({ ...mergeOptions, dialect: next });
+  };
 
-      // normal char
-      out += ch;
-      prevWasSpace = false;
-      i++;
-    }
+  const onArrayModeChange = async (next: ArrayMode) => {
+    setArrayMode(next);
+    if (merged) await onMerge({ ...mergeOptions, arrays: next });
+  };
 
-    return out.trim();
-  }
+  const onJsonCastChange = async (next: boolean) => {
+    setJsonCast(next);
+    if (merged) await onMerge({ ...mergeOptions, jsonCast: next });
+  };
 
-  async function updateFormatted(
-    newMerged: string,
-    mode: "beautify" | "minify" = formatMode
-  ) {
-    if (!newMerged) {
-      setFormatted("");
-      return;
+  // Re-lays out the current output straight away, so the panel's changes can
+  // be judged on the real query too
+  const onBeautifyOptionsChange = async (next: BeautifyOptions) => {
+    setBeautifyOptions(next);
+    saveBeautifyOptions(next);
+    if (formatMode === "beautify") {
+      await updateFormatted(merged, { ...mergeOptions, beautify: next });
     }
-    if (mode === "beautify") {
-      const pretty = await beautifyWithPMTSF(newMerged);
-      setFormatted(pretty);
-    } else {
-      setFormatted(minifySqlPreserveStrings(newMerged));
-    }
-  }
+  };
 
-  const onFormatModeChange = (mode: "beautify" | "minify") => {
+  const onFormatModeChange = async (mode: FormatMode) => {
     setFormatMode(mode);
-    updateFormatted(merged, mode);
+    await updateFormatted(merged, { ...mergeOptions, format: mode });
   };
 
   return (
     <section className="grid gap-6">
-      {/* JSON Input Section */}
+      {templatesOpen && (
+        <TemplateLibraryPanel
+          templates={templates}
+          onChange={updateTemplates}
+          onLoad={onLoadTemplate}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      )}
+      {formatSettingsOpen && (
+        <FormatSettingsPanel
+          options={beautifyOptions}
+          onChange={onBeautifyOptionsChange}
+          presets={formatPresets}
+          onPresetsChange={(next) => {
+            setFormatPresets(next);
+            savePresets(next);
+          }}
+          previewSql={merged || sql}
+          dialect={dialect}
+          onClose={() => setFormatSettingsOpen(false)}
+        />
+      )}
+      {historyOpen && (
+        <MergeHistoryPanel
+          entries={history}
+          limit={historyLimit}
+          onLimitChange={onHistoryLimitChange}
+          onRestore={onRestoreHistory}
+          onDelete={(id) => updateHistory(history.filter((e) => e.id !== id))}
+          onClear={() => updateHistory([])}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {/* Log Import Section */}
       <div className="grid gap-2">
-        <label
-          htmlFor="json-input"
-          className="text-sm font-medium text-foreground"
-        >
-          Load from JSON (optional)
-        </label>
+        <div className="flex items-center justify-between">
+          <label
+            htmlFor="json-input"
+            className="text-sm font-medium text-foreground"
+          >
+            Import from JSON or a log entry (optional)
+          </label>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                aria-label="Choose log format"
+                className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                Format:{" "}
+                {LOG_IMPORTERS.find((i) => i.id === importerId)?.label ??
+                  "Auto-detect"}
+                <ChevronDownIcon className="size-3" aria-hidden="true" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" sideOffset={6}>
+              <DropdownMenuRadioGroup
+                value={importerId}
+                onValueChange={setImporterId}
+              >
+                <DropdownMenuRadioItem
+                  value=""
+                  className="hover:cursor-pointer"
+                >
+                  Auto-detect
+                </DropdownMenuRadioItem>
+                <DropdownMenuSeparator />
+                {LOG_IMPORTERS.map((i) => (
+                  <DropdownMenuRadioItem
+                    key={i.id}
+                    value={i.id}
+                    className="hover:cursor-pointer"
+                  >
+                    {i.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
         <div className="flex gap-2">
           <textarea
             id="json-input"
             value={jsonInput}
             onChange={(e) => setJsonInput(e.target.value)}
             rows={3}
-            placeholder='{"sql":"SELECT...", "values":[...]}'
+            placeholder={
+              LOG_IMPORTERS.find((i) => i.id === importerId)?.example ??
+              '{"sql":"SELECT...", "values":[...]}'
+            }
             className="flex-1 resize-y rounded-md border border-input bg-background p-3 text-sm text-foreground shadow-sm focus:outline-none focus:ring-2 focus:ring-ring"
             spellCheck={false}
           />
           <button
             type="button"
-            onClick={onLoadFromJsonAndCopy}
+            onClick={onLoadFromLogAndCopy}
             disabled={!jsonInput.trim()}
             className="self-start inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {copied ? "Copied!" : "Load & Copy"}
           </button>
+          <button
+            type="button"
+            onClick={onMergeBatch}
+            disabled={!jsonInput.trim()}
+            title="Merge every entry of NDJSON or a multi-query log excerpt"
+            className="self-start inline-flex items-center justify-center rounded-md border border-input bg-background px-4 py-2 text-sm font-medium text-foreground hover:bg-accent hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Merge All
+          </button>
         </div>
         <div className="text-xs text-muted-foreground">
-          Paste a JSON object with{" "}
-          <code className="text-xs bg-muted px-1 py-0.5 rounded">sql</code> and{" "}
-          <code className="text-xs bg-muted px-1 py-0.5 rounded">values</code>{" "}
-          properties to auto-populate the fields below.
+          {importedFormat ? (
+            <>
+              Detected format:{" "}
+              <span className="font-medium text-foreground">
+                {importedFormat}
+              </span>
+            </>
+          ) : (
+            <>
+              Paste a JSON object with{" "}
+              <code className="text-xs bg-muted px-1 py-0.5 rounded">sql</code>{" "}
+              and{" "}
+              <code className="text-xs bg-muted px-1 py-0.5 rounded">
+                values
+              </code>{" "}
+              properties, or a Hibernate, TypeORM, Sequelize, Prisma, Laravel or
+              p6spy log entry, to auto-populate the fields below. Use Merge All
+              for NDJSON or a log excerpt with many queries.
+            </>
+          )}
         </div>
       </div>
 
@@ -911,23 +715,65 @@ export default function SqlMergeTool() {
       <div className="flex flex-wrap items-center gap-3">
         <button
           type="button"
-          onClick={onMerge}
+          onClick={() => onMerge()}
           className="inline-flex items-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
         >
           Merge
         </button>
 
+        <div className="inline-flex rounded-md shadow-sm overflow-hidden">
+          <button
+            type="button"
+            onClick={() => onExtractParams()}
+            title="Replace literals in the SQL with placeholders"
+            className="inline-flex items-center rounded-l-md bg-secondary px-3 py-2 text-sm font-medium text-secondary-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            Extract parameters
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                aria-label="Choose placeholder style"
+                className="inline-flex items-center justify-center rounded-r-md bg-secondary px-2 py-2 text-sm text-secondary-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring border-l border-border"
+              >
+                <ChevronDownIcon className="size-4" aria-hidden="true" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" sideOffset={6}>
+              <DropdownMenuLabel>Placeholder style</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={placeholderStyle}
+                onValueChange={(v) =>
+                  setPlaceholderStyle(v as PlaceholderStyle)
+                }
+              >
+                {PLACEHOLDER_STYLES.map((p) => (
+                  <DropdownMenuRadioItem
+                    key={p.value}
+                    value={p.value}
+                    disabled={p.unsupported?.includes(dialect)}
+                    className="hover:cursor-pointer font-mono"
+                  >
+                    {p.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
         <div className="inline-flex items-center gap-2">
           <span className="text-sm text-muted-foreground">Format</span>
           <button
             type="button"
             role="switch"
             aria-checked={formatMode === "beautify"}
-            onClick={async () => {
-              const next = formatMode === "beautify" ? "minify" : "beautify";
-              setFormatMode(next);
-              await updateFormatted(merged, next);
-            }}
+            onClick={() =>
+              onFormatModeChange(
+                formatMode === "beautify" ? "minify" : "beautify"
+              )
+            }
             data-state={formatMode === "beautify" ? "on" : "off"}
             className="group relative inline-flex h-6 w-11 items-center rounded-full bg-muted transition-colors hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring data-[state=on]:bg-primary/20"
           >
@@ -942,8 +788,122 @@ export default function SqlMergeTool() {
           <span className="text-xs text-muted-foreground min-w-14">
             {formatMode === "beautify" ? "Beautify" : "Minify"}
           </span>
+          <button
+            type="button"
+            onClick={() => {
+              setHistoryOpen(false);
+              setTemplatesOpen(false);
+              setFormatSettingsOpen((open) => !open);
+            }}
+            aria-expanded={formatSettingsOpen}
+            title="Indentation, commas, keyword case and other beautify options"
+            className="inline-flex items-center rounded-md bg-muted px-3 py-2 text-sm font-medium text-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            Style
+          </button>
         </div>
 
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              aria-label="Choose SQL dialect"
+              className="inline-flex items-center gap-1 rounded-md bg-muted px-3 py-2 text-sm font-medium text-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {SQL_DIALECTS.find((d) => d.value === dialect)?.label}
+              <ChevronDownIcon className="size-4" aria-hidden="true" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" sideOffset={6}>
+            <DropdownMenuLabel>Dialect</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={dialect}
+              onValueChange={(v) => onDialectChange(v as SqlDialect)}
+            >
+              {SQL_DIALECTS.map((d) => (
+                <DropdownMenuRadioItem
+                  key={d.value}
+                  value={d.value}
+                  className="hover:cursor-pointer"
+                >
+                  {d.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              aria-label="Choose how array and JSON parameters are rendered"
+              className="inline-flex items-center gap-1 rounded-md bg-muted px-3 py-2 text-sm font-medium text-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              Values
+              <ChevronDownIcon className="size-4" aria-hidden="true" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" sideOffset={6}>
+            <DropdownMenuLabel>Array parameters</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={arrayMode}
+              onValueChange={(v) => onArrayModeChange(v as ArrayMode)}
+            >
+              {ARRAY_MODES.map((m) => (
+                <DropdownMenuRadioItem
+                  key={m.value}
+                  value={m.value}
+                  disabled={m.postgres && dialect !== "postgres"}
+                  className="hover:cursor-pointer"
+                >
+                  {m.label}
+                  {m.postgres && (
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      PostgreSQL
+                    </span>
+                  )}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>JSON parameters</DropdownMenuLabel>
+            <DropdownMenuCheckboxItem
+              checked={jsonCast}
+              onCheckedChange={(checked) => onJsonCastChange(checked === true)}
+              className="hover:cursor-pointer"
+            >
+              Cast as JSON
+              <span className="ml-auto text-xs text-muted-foreground">
+                {JSON_CASTS[dialect]("'…'")}
+              </span>
+            </DropdownMenuCheckboxItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <button
+          type="button"
+          onClick={() => {
+            setTemplatesOpen(false);
+            setFormatSettingsOpen(false);
+            setHistoryOpen((open) => !open);
+          }}
+          aria-expanded={historyOpen}
+          className="inline-flex items-center rounded-md bg-muted px-3 py-2 text-sm font-medium text-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          History
+        </button>
+
+        <button
+          type="button"
+          onClick={onCopyLink}
+          disabled={!sql}
+          title="Copy a link that reopens this query, parameters, dialect and format"
+          className="inline-flex items-center rounded-md bg-muted px-3 py-2 text-sm font-medium text-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+        >
+          {linkCopied ? "Link copied!" : "Copy link"}
+        </button>
+
         <button
           type="button"
           onClick={onClear}
@@ -955,7 +915,7 @@ export default function SqlMergeTool() {
         <div className="inline-flex rounded-md shadow-sm overflow-hidden">
           <button
             type="button"
-            onClick={onLoadExample}
+            onClick={() => onLoadTemplate(BUILT_IN_TEMPLATES[0])}
             className="inline-flex items-center rounded-l-md bg-secondary px-3 py-2 text-sm font-medium text-secondary-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
           >
             Load Example
@@ -971,11 +931,53 @@ export default function SqlMergeTool() {
               </button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="start" sideOffset={6}>
+              <DropdownMenuLabel>Examples</DropdownMenuLabel>
+              {BUILT_IN_TEMPLATES.map((t) => (
+                <DropdownMenuItem
+                  key={t.id}
+                  className="hover:cursor-pointer"
+                  onClick={() => onLoadTemplate(t)}
+                >
+                  {t.name}
+                </DropdownMenuItem>
+              ))}
+              {templates.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Saved templates</DropdownMenuLabel>
+                  {templates.map((t) => (
+                    <DropdownMenuItem
+                      key={t.id}
+                      className="hover:cursor-pointer"
+                      onClick={() => onLoadTemplate(t)}
+                    >
+                      <span className="truncate">{t.name}</span>
+                      {t.tags.length > 0 && (
+                        <span className="ml-auto pl-3 text-xs text-muted-foreground">
+                          {t.tags.join(", ")}
+                        </span>
+                      )}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="hover:cursor-pointer"
+                onClick={onSaveTemplate}
+                disabled={!sql.trim()}
+              >
+                Save as template
+              </DropdownMenuItem>
               <DropdownMenuItem
                 className="hover:cursor-pointer"
-                onClick={onLoadAdvancedExample}
+                onClick={() => {
+                  setHistoryOpen(false);
+                  setFormatSettingsOpen(false);
+                  setTemplatesOpen(true);
+                }}
               >
-                Load advanced example
+                Manage templates…
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
@@ -991,19 +993,21 @@ export default function SqlMergeTool() {
               htmlFor="sql"
               className="text-sm font-medium text-foreground"
             >
-              SQL with {"'?'"} placeholders
+              SQL with {"'?'"} or {"'$1'"} placeholders
             </label>
-            <textarea
+            <SqlEditor
               id="sql"
+              ref={sqlRef}
               value={sql}
-              onChange={(e) => setSql(e.target.value)}
+              onChange={setSql}
+              dialect={dialect}
+              inspection={inspection}
               rows={6}
-              className="w-full resize-y rounded-md border border-input bg-background p-3 text-sm text-foreground shadow-sm focus:outline-none focus:ring-2 focus:ring-ring"
               aria-describedby="sql-help"
-              spellCheck={false}
             />
             <div id="sql-help" className="text-xs text-muted-foreground">
-              Placeholders outside quotes will be replaced. Example:{" "}
+              Placeholders outside quotes and comments will be replaced.
+              Example:{" "}
               {"SELECT * FROM abc WHERE id = ? AND anotherId IN (?, ?)"}
             </div>
             <div className="text-xs text-muted-foreground">
@@ -1015,12 +1019,73 @@ export default function SqlMergeTool() {
           </div>
 
           <div className="grid gap-2 items-start">
-            <label
-              htmlFor="params"
-              className="text-sm font-medium text-foreground"
+            <div className="flex items-center justify-between gap-2">
+              <label
+                htmlFor="params"
+                className="text-sm font-medium text-foreground"
+              >
+                Parameters (JSON array or object)
+              </label>
+              {paramSets.length > 1 && (
+                <button
+                  type="button"
+                  onClick={onMergeAllSets}
+                  className="rounded-md px-2 py-1 text-xs font-medium text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  Merge all sets
+                </button>
+              )}
+            </div>
+            <div
+              role="tablist"
+              aria-label="Parameter sets"
+              className="flex flex-wrap items-center gap-1"
             >
-              Parameters (JSON array)
-            </label>
+              {paramSets.map((set, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  role="tab"
+                  aria-selected={i === activeSet}
+                  onClick={() => setActiveSet(i)}
+                  title={paramSetProblems[i]}
+                  className={cn(
+                    "rounded-md px-2 py-1 text-xs hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring",
+                    i === activeSet
+                      ? "bg-muted font-medium text-foreground"
+                      : "text-muted-foreground hover:text-foreground",
+                    paramSetProblems[i] && "text-destructive"
+                  )}
+                >
+                  {set.name || "(unnamed)"}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={onAddParamSet}
+                aria-label="Add parameter set"
+                className="rounded-md px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                +
+              </button>
+            </div>
+            {paramSets.length > 1 && (
+              <div className="flex w-full items-center gap-2">
+                <input
+                  aria-label="Parameter set name"
+                  value={paramSets[activeSet]?.name ?? ""}
+                  onChange={(e) => onRenameParamSet(e.target.value)}
+                  className="flex-1 rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                />
+                <button
+                  type="button"
+                  onClick={() => onRemoveParamSet(activeSet)}
+                  className="rounded-md px-2 py-1 text-xs text-muted-foreground hover:text-destructive hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  Remove set
+                </button>
+              </div>
+            )}
             <textarea
               id="params"
               value={paramsText}
@@ -1032,8 +1097,16 @@ export default function SqlMergeTool() {
             />
             <div id="params-help" className="text-xs text-muted-foreground">
               Example: {'["784", 123, 456]'} — strings will be single-quoted and
-              escaped, numbers left as-is.
+              escaped, numbers left as-is. Use an object such as {'{"id": 784}'}{" "}
+              for :id, @id or %(id)s placeholders. Type a value explicitly with{" "}
+              {'{"type": "timestamp", "value": "2024-01-01T10:00:00Z"}'} (also
+              date, time, decimal) or {'{"type": "bytes", "base64": "..."}'}.
             </div>
+            {paramSetProblems[activeSet] && paramsText.trim() && (
+              <div className="text-xs text-destructive">
+                {paramSetProblems[activeSet]}
+              </div>
+            )}
           </div>
         </div>
 
@@ -1054,23 +1127,98 @@ export default function SqlMergeTool() {
           </div>
 
           <pre className="flex-1 min-h-0 overflow-auto rounded-md border border-input bg-background p-3 text-sm">
-            <code
-              className="font-mono text-foreground"
-              dangerouslySetInnerHTML={{
-                __html: formatted
-                  ? highlighted
-                  : escapeHtml('Run "Merge" to see the output here.'),
-              }}
-            />
+            {formatted ? (
+              <SqlOutput
+                sql={formatted}
+                dialect={dialect}
+                literals={outputLiterals}
+              />
+            ) : (
+              <code className="font-mono text-foreground">
+                Run &quot;Merge&quot; to see the output here.
+              </code>
+            )}
           </pre>
 
-          {error && (
-            <div className="rounded-md border border-destructive bg-destructive/10 p-3 text-sm text-destructive">
-              {error}
+          <DiagnosticsList
+            sql={sql}
+            error={error}
+            diagnostics={diagnostics}
+            onJump={onJumpToSql}
+          />
+
+          {batch.length > 0 && (
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">
+                  Batch results ({batch.filter((e) => !e.error).length} of{" "}
+                  {batch.length} merged)
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onCopyBatch("all")}
+                    disabled={batch.every((e) => e.error)}
+                    className="inline-flex items-center rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-accent-foreground hover:opacity-90 hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+                  >
+                    {batchCopied === "all" ? "Copied!" : "Copy All"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setBatch([])}
+                    className="inline-flex items-center rounded-md px-3 py-1.5 text-xs font-medium text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+              <ol className="grid max-h-96 gap-2 overflow-auto">
+                {batch.map((entry, i) => (
+                  <li
+                    key={i}
+                    className="grid gap-1 rounded-md border border-input bg-background p-3 text-sm"
+                  >
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span>
+                        #{i + 1}
+                        {entry.label && ` · ${entry.label}`}
+                      </span>
+                      {!entry.error && (
+                        <button
+                          type="button"
+                          onClick={() => onCopyBatch(i)}
+                          className="rounded-md px-2 py-0.5 hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+                        >
+                          {batchCopied === i ? "Copied!" : "Copy"}
+                        </button>
+                      )}
+                    </div>
+                    {entry.error ? (
+                      <>
+                        <div className="text-destructive">{entry.error}</div>
+                        <pre className="truncate font-mono text-xs text-muted-foreground">
+                          {entry.source}
+                        </pre>
+                      </>
+                    ) : (
+                      <pre className="overflow-auto whitespace-pre-wrap font-mono text-foreground">
+                        {entry.output}
+                      </pre>
+                    )}
+                    {entry.warnings.map((w) => (
+                      <div key={w} className="text-xs text-muted-foreground">
+                        {w}
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ol>
             </div>
           )}
         </div>
       </div>
+
+      <PlaceholderInspector inspection={inspection} />
     </section>
   );
 }
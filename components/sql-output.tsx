@@ -0,0 +1,71 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { SqlDialect } from "@/lib/sql-dialects";
+import { tokenizeSql } from "@/lib/sql-lexer";
+import type { MergedLiteral } from "@/lib/sql-merge";
+import { tokenClass } from "./sql-highlight";
+
+type SqlOutputProps = {
+  sql: string;
+  dialect: SqlDialect;
+  // Bound values within `sql`, as located by relocateLiterals
+  literals: MergedLiteral[];
+};
+
+const LITERAL_CLASS =
+  "rounded-sm bg-code-literal/10 underline decoration-code-literal decoration-dotted underline-offset-4 hover:bg-code-literal/25";
+
+function literalTitle({ binding, placeholder }: MergedLiteral): string {
+  if (typeof binding === "string") return `Parameter ${placeholder}`;
+  return placeholder === "?"
+    ? `Parameter ${binding}`
+    : `Parameter ${binding} (${placeholder})`;
+}
+
+/**
+ * Merged SQL rendered token by token. Inserted values are marked, and
+ * hovering one shows the parameter it came from.
+ */
+export default function SqlOutput({ sql, dialect, literals }: SqlOutputProps) {
+  const tokens = tokenizeSql(sql, { dialect });
+  const out: ReactNode[] = [];
+  let li = 0;
+  // Tokens of the literal being collected, if any
+  let group: ReactNode[] | undefined;
+
+  tokens.forEach((token, i) => {
+    const className = tokenClass(tokens, i);
+    // Shown as copied: the formatter has already applied the keyword case
+    const node = className ? (
+      <span key={token.start} className={className}>
+        {token.text}
+      </span>
+    ) : (
+      token.text
+    );
+
+    while (li < literals.length && literals[li].end <= token.start) li++;
+    const literal = literals[li];
+    if (!literal || token.start < literal.start) {
+      out.push(node);
+      return;
+    }
+    group ??= [];
+    group.push(node);
+    if (token.end >= literal.end) {
+      out.push(
+        <span
+          key={`literal-${literal.start}`}
+          title={literalTitle(literal)}
+          className={LITERAL_CLASS}
+        >
+          {group}
+        </span>
+      );
+      group = undefined;
+    }
+  });
+
+  return <code className="font-mono text-foreground">{out}</code>;
+}
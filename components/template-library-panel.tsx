@@ -0,0 +1,178 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { XIcon } from "lucide-react";
+import {
+  exportTemplates,
+  importTemplates,
+  mergeTemplates,
+  parseTags,
+  type QueryTemplate,
+} from "@/lib/query-templates";
+
+type TemplateLibraryPanelProps = {
+  // User templates only; built-ins are loaded from the examples menu
+  templates: QueryTemplate[];
+  onChange: (templates: QueryTemplate[]) => void;
+  onLoad: (template: QueryTemplate) => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  "rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
+export default function TemplateLibraryPanel({
+  templates,
+  onChange,
+  onLoad,
+  onClose,
+}: TemplateLibraryPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<{ error?: string; message?: string }>(
+    {}
+  );
+
+  const update = (id: string, patch: Partial<QueryTemplate>) => {
+    onChange(templates.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const onExport = () => {
+    const blob = new Blob([exportTemplates(templates)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "sql-merge-templates.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const onImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const incoming = importTemplates(await file.text());
+      onChange(mergeTemplates(templates, incoming));
+      setStatus({
+        message: `Imported ${incoming.length} template${incoming.length === 1 ? "" : "s"}.`,
+      });
+    } catch (e) {
+      setStatus({ error: (e as Error).message });
+    }
+  };
+
+  return (
+    <aside
+      aria-label="Query templates"
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-sm flex-col gap-3 border-l border-border bg-background p-4 shadow-lg"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-foreground">
+          Templates ({templates.length})
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close templates"
+          className="rounded-md p-1 text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          <XIcon className="size-4" aria-hidden="true" />
+        </button>
+      </div>
+
+      <ol className="grid flex-1 content-start gap-2 overflow-auto">
+        {templates.map((t) => (
+          <li
+            key={t.id}
+            className="grid gap-2 rounded-md border border-input p-2 text-sm"
+          >
+            <input
+              aria-label="Template name"
+              value={t.name}
+              onChange={(e) => update(t.id, { name: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              // Uncontrolled so commas can be typed; remount when the tags
+              // change underneath, e.g. after an import
+              key={t.tags.join(",")}
+              aria-label="Tags"
+              placeholder="Tags, comma-separated"
+              defaultValue={t.tags.join(", ")}
+              onBlur={(e) => update(t.id, { tags: parseTags(e.target.value) })}
+              className={inputClassName}
+            />
+            <div className="text-xs text-muted-foreground">
+              Parameter sets: {t.paramSets.map((p) => p.name).join(", ")}
+            </div>
+            <div className="truncate font-mono text-xs text-muted-foreground">
+              {t.sql}
+            </div>
+            <div className="flex justify-end gap-2 text-xs">
+              <button
+                type="button"
+                onClick={() => onLoad(t)}
+                className="rounded-md px-2 py-1 font-medium text-foreground hover:bg-muted hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                Load
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(templates.filter((x) => x.id !== t.id))}
+                className="rounded-md px-2 py-1 text-muted-foreground hover:text-destructive hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+        {templates.length === 0 && (
+          <li className="text-sm text-muted-foreground">
+            Use &ldquo;Save as template&rdquo; in the examples menu to keep the
+            current query here.
+          </li>
+        )}
+      </ol>
+
+      {(status.error || status.message) && (
+        <div
+          className={
+            status.error
+              ? "text-xs text-destructive"
+              : "text-xs text-muted-foreground"
+          }
+        >
+          {status.error ?? status.message}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 border-t border-border pt-3 text-xs">
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            onImport(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="rounded-md px-2 py-1 font-medium text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          Import…
+        </button>
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={!templates.length}
+          className="rounded-md px-2 py-1 font-medium text-muted-foreground hover:text-foreground hover:cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+        >
+          Export
+        </button>
+      </div>
+    </aside>
+  );
+}
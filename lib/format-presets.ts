@@ -0,0 +1,125 @@
+import { createId, loadJson, saveJson } from "./local-storage";
+import {
+  DEFAULT_BEAUTIFY_OPTIONS,
+  type BeautifyOptions,
+} from "./sql-formatter";
+
+// A named beautify style the user can switch to
+export type FormatPreset = {
+  id: string;
+  name: string;
+  options: BeautifyOptions;
+  // Shipped with the app; can be applied but not deleted
+  builtIn?: boolean;
+};
+
+export const BEAUTIFY_INDENTS = [
+  { value: "  ", label: "2 spaces" },
+  { value: "    ", label: "4 spaces" },
+  { value: "\t", label: "Tab" },
+];
+
+const OPTIONS_KEY = "sql-merge:beautify-options";
+const PRESETS_KEY = "sql-merge:format-presets";
+
+export const BUILT_IN_PRESETS: FormatPreset[] = [
+  {
+    id: "builtin:default",
+    name: "Default",
+    options: DEFAULT_BEAUTIFY_OPTIONS,
+    builtIn: true,
+  },
+  {
+    id: "builtin:leading-commas",
+    name: "Leading commas, 4 spaces, lowercase",
+    options: {
+      ...DEFAULT_BEAUTIFY_OPTIONS,
+      indent: "    ",
+      trailingCommas: false,
+      spaceAfterExpandedComma: false,
+      uppercaseKeywords: false,
+    },
+    builtIn: true,
+  },
+];
+
+/**
+ * Fills in anything missing or mistyped in stored options from the defaults,
+ * so settings saved by an older version still load.
+ */
+export function normalizeBeautifyOptions(v: unknown): BeautifyOptions {
+  const stored = (typeof v === "object" && v !== null ? v : {}) as Record<
+    string,
+    unknown
+  >;
+  const options = { ...DEFAULT_BEAUTIFY_OPTIONS };
+  for (const key of Object.keys(options) as (keyof BeautifyOptions)[]) {
+    const value = stored[key];
+    const valid =
+      typeof value === typeof options[key] &&
+      (typeof value !== "number" || (Number.isInteger(value) && value >= 0));
+    if (valid) {
+      (options as Record<string, unknown>)[key] = value;
+    }
+  }
+  if (!BEAUTIFY_INDENTS.some((i) => i.value === options.indent)) {
+    options.indent = DEFAULT_BEAUTIFY_OPTIONS.indent;
+  }
+  return options;
+}
+
+export function sameBeautifyOptions(
+  a: BeautifyOptions,
+  b: BeautifyOptions
+): boolean {
+  return (Object.keys(a) as (keyof BeautifyOptions)[]).every(
+    (key) => a[key] === b[key]
+  );
+}
+
+export function createPreset(
+  name: string,
+  options: BeautifyOptions
+): FormatPreset {
+  return { id: createId(), name, options };
+}
+
+function toUserPreset(v: unknown): FormatPreset | undefined {
+  if (typeof v !== "object" || v === null) return undefined;
+  const p = v as Record<string, unknown>;
+  if (typeof p.id !== "string" || typeof p.name !== "string") {
+    return undefined;
+  }
+  return {
+    id: p.id,
+    name: p.name,
+    options: normalizeBeautifyOptions(p.options),
+  };
+}
+
+export function loadBeautifyOptions(): BeautifyOptions {
+  return loadJson(
+    OPTIONS_KEY,
+    normalizeBeautifyOptions,
+    DEFAULT_BEAUTIFY_OPTIONS
+  );
+}
+
+export function saveBeautifyOptions(options: BeautifyOptions): void {
+  saveJson(OPTIONS_KEY, options);
+}
+
+export function loadPresets(): FormatPreset[] {
+  return loadJson(
+    PRESETS_KEY,
+    (v) =>
+      Array.isArray(v)
+        ? v.map(toUserPreset).filter((p): p is FormatPreset => p !== undefined)
+        : [],
+    []
+  );
+}
+
+export function savePresets(presets: FormatPreset[]): void {
+  saveJson(PRESETS_KEY, presets.length ? presets : undefined);
+}
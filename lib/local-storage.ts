@@ -0,0 +1,38 @@
+// Storage can be missing (server render), disabled or full. Everything kept
+// there is a convenience, so those cases read as the fallback and writes are
+// dropped.
+
+/**
+ * Reads the JSON stored under `key` and passes it through `parse`, which
+ * validates it. Returns `fallback` when nothing is stored or it can't be read.
+ */
+export function loadJson<T>(
+  key: string,
+  parse: (value: unknown) => T,
+  fallback: T
+): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored === null ? fallback : parse(JSON.parse(stored));
+  } catch {
+    return fallback;
+  }
+}
+
+// Stores `value` as JSON under `key`; undefined removes the key
+export function saveJson(key: string, value: unknown): void {
+  try {
+    if (value === undefined) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // ignore storage errors
+  }
+}
+
+// Unique enough for locally stored entries, and sorts by creation time
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
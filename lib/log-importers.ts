@@ -0,0 +1,365 @@
+import {
+  LosslessNumber,
+  parseJsonLossless,
+  stringifyJsonLossless,
+} from "./lossless-json";
+import { tokenizeSql, type SqlToken } from "./sql-lexer";
+
+export type ImportedQuery = {
+  sql: string;
+  params: unknown[] | Record<string, unknown>;
+};
+
+/**
+ * Recognizes one log format. `parse` returns undefined when the text isn't in
+ * that format, so importers can be tried in turn for auto-detection.
+ * `entryStart` matches the first line of an entry and is used to split
+ * multi-entry excerpts.
+ */
+export type LogImporter = {
+  id: string;
+  label: string;
+  example: string;
+  entryStart: RegExp;
+  parse: (text: string) => ImportedQuery | undefined;
+};
+
+function tryParseJson(text: string): unknown {
+  try {
+    return parseJsonLossless(text.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isParams(v: unknown): v is ImportedQuery["params"] {
+  return typeof v === "object" && v !== null && !(v instanceof LosslessNumber);
+}
+
+// Numbers printed as text in logs; anything that isn't a JSON number stays a
+// string
+function numberFromText(text: string): unknown {
+  if (!/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(text)) return text;
+  const n = Number(text);
+  return String(n) === text ? n : new LosslessNumber(text);
+}
+
+function significant(tokens: SqlToken[]): SqlToken[] {
+  return tokens.filter((t) => t.type !== "whitespace" && t.type !== "comment");
+}
+
+// Recovers the bound values by walking a prepared statement and its
+// values-inlined rendering side by side. Returns undefined if they disagree.
+function alignLiterals(
+  prepared: string,
+  effective: string
+): unknown[] | undefined {
+  const left = significant(tokenizeSql(prepared));
+  const right = significant(tokenizeSql(effective));
+  const values: unknown[] = [];
+  let j = 0;
+
+  for (const token of left) {
+    const r = right[j++];
+    if (!r) return undefined;
+    if (token.type !== "placeholder") {
+      if (token.text.toLowerCase() !== r.text.toLowerCase()) return undefined;
+      continue;
+    }
+    const upper = r.text.toUpperCase();
+    if (r.type === "string" && r.text.length > 1) {
+      values.push(r.text.slice(1, -1).replace(/''/g, "'"));
+    } else if (r.type === "number") {
+      values.push(numberFromText(r.text));
+    } else if (r.text === "-" && right[j]?.type === "number") {
+      values.push(numberFromText(`-${right[j++].text}`));
+    } else if (upper === "NULL") {
+      values.push(null);
+    } else if (upper === "TRUE" || upper === "FALSE") {
+      values.push(upper === "TRUE");
+    } else {
+      return undefined;
+    }
+  }
+  return j === right.length ? values : undefined;
+}
+
+// {"sql": "...", "values": [...]}
+const jsonImporter: LogImporter = {
+  id: "json",
+  label: "JSON {sql, values}",
+  example: '{"sql":"SELECT...", "values":[...]}',
+  entryStart: /^\s*\{/,
+  parse(text) {
+    const obj = tryParseJson(text);
+    if (!isRecord(obj) || typeof obj.sql !== "string") return undefined;
+    if (!isParams(obj.values)) return undefined;
+    return { sql: obj.sql, params: obj.values };
+  },
+};
+
+// Prisma query events: {"query": "...", "params": "[...]"}, or the usual
+// console.log of them: "Query: ...\nParams: [...]"
+const prismaImporter: LogImporter = {
+  id: "prisma",
+  label: "Prisma",
+  example: '{"query":"SELECT ... $1", "params":"[1]"}',
+  entryStart: /prisma:query|Query:/,
+  parse(text) {
+    const obj = tryParseJson(text);
+    if (isRecord(obj)) {
+      if (typeof obj.query !== "string") return undefined;
+      const params =
+        typeof obj.params === "string" ? tryParseJson(obj.params) : obj.params;
+      return isParams(params) ? { sql: obj.query, params } : undefined;
+    }
+    const m =
+      /(?:prisma:query|Query:)\s*([\s\S]*?)\s*^\s*Params:\s*(\[[\s\S]*\])\s*$/im.exec(
+        text
+      );
+    const params = m ? tryParseJson(m[2]) : undefined;
+    return m && isParams(params) ? { sql: m[1], params } : undefined;
+  },
+};
+
+// TypeORM: "query: SELECT ... -- PARAMETERS: [...]"
+const typeormImporter: LogImporter = {
+  id: "typeorm",
+  label: "TypeORM",
+  example: "query: SELECT ... WHERE id = ? -- PARAMETERS: [1]",
+  entryStart: /^\s*query(?: failed| is slow)?:/,
+  parse(text) {
+    const m =
+      /^\s*(?:query(?: failed| is slow)?:\s*)?([\s\S]*?)\s*-- PARAMETERS:\s*(\[[\s\S]*\])\s*$/.exec(
+        text
+      );
+    if (m) {
+      const params = tryParseJson(m[2]);
+      return isParams(params) ? { sql: m[1], params } : undefined;
+    }
+    const plain = /^\s*query:\s*([\s\S]+?)\s*$/.exec(text);
+    return plain ? { sql: plain[1], params: [] } : undefined;
+  },
+};
+
+// Sequelize: "Executing (default): SELECT ... $1; 5, \"abc\"" — the bind
+// values follow the statement when logQueryParameters is on
+const sequelizeImporter: LogImporter = {
+  id: "sequelize",
+  label: "Sequelize",
+  example: 'Executing (default): SELECT ... WHERE id = $1; 5, "abc"',
+  entryStart: /Executing \(/,
+  parse(text) {
+    const m = /Executing \([^)]*\):\s*([\s\S]*?)\s*$/.exec(text);
+    if (!m) return undefined;
+    const body = m[1];
+    // The values are JSON after the last ";" that leaves a parseable list
+    for (let i = body.lastIndexOf(";"); i !== -1;) {
+      const tail = body.slice(i + 1).trim();
+      const params = tail ? tryParseJson(`[${tail}]`) : [];
+      if (Array.isArray(params)) {
+        return { sql: body.slice(0, i).trimEnd(), params };
+      }
+      i = i > 0 ? body.lastIndexOf(";", i - 1) : -1;
+    }
+    return { sql: body, params: [] };
+  },
+};
+
+// Hibernate SQL logging plus its bind tracing:
+//   Hibernate: select ... where u.id=?
+//   binding parameter [1] as [BIGINT] - [5]          (Hibernate 5)
+//   binding parameter (1:BIGINT) <- [5]              (Hibernate 6)
+const BINDING =
+  /binding parameter (?:\[(\d+)\] as \[(\w+)\] - |\((\d+):(\w+)\) <- )\[([\s\S]*?)\]\s*$/;
+
+const HIBERNATE_NUMERIC =
+  /^(?:BIGINT|INTEGER|INT|SMALLINT|TINYINT|NUMERIC|DECIMAL|DOUBLE|FLOAT|REAL)$/i;
+
+const hibernateImporter: LogImporter = {
+  id: "hibernate",
+  label: "Hibernate",
+  example:
+    "Hibernate: select ... where id=?\nbinding parameter [1] as [BIGINT] - [5]",
+  entryStart: /Hibernate:|org\.hibernate\.SQL\b/,
+  parse(text) {
+    const lines = text.split(/\r?\n/);
+    const first = lines.findIndex((l) => BINDING.test(l));
+    const marker = /(?:Hibernate:|org\.hibernate\.SQL\b[\s:-]*)\s*([\s\S]*)$/;
+    const start = lines.findIndex((l) => marker.test(l));
+    if (start === -1 && first === -1) return undefined;
+
+    const sqlLines = lines.slice(
+      Math.max(start, 0),
+      first === -1 ? undefined : first
+    );
+    const markerMatch = start === -1 ? null : marker.exec(lines[start]);
+    if (markerMatch) sqlLines[0] = markerMatch[1];
+    const sql = sqlLines.join("\n").trim();
+    if (!sql) return undefined;
+
+    const params: unknown[] = [];
+    for (const line of lines) {
+      const m = BINDING.exec(line);
+      if (!m) continue;
+      const index = Number(m[1] ?? m[3]);
+      const type = m[2] ?? m[4];
+      const raw = m[5];
+      params[index - 1] =
+        raw === "null" || raw === "<null>"
+          ? null
+          : /^(?:BOOLEAN|BIT)$/i.test(type) && /^(?:true|false)$/i.test(raw)
+            ? raw.toLowerCase() === "true"
+            : HIBERNATE_NUMERIC.test(type)
+              ? numberFromText(raw)
+              : raw;
+    }
+    return { sql, params: Array.from(params, (v) => v ?? null) };
+  },
+};
+
+// Laravel: DB::getQueryLog() as JSON ({"query", "bindings"}) or as dumped by
+// dd()/dump(), or a toSql() string followed by a getBindings() dump
+const PHP_VALUE = /\d+\s*=>\s*("(?:[^"\\]|\\.)*"|[^\s\]]+)/g;
+
+function phpValue(raw: string): unknown {
+  if (raw.startsWith('"')) return raw.slice(1, -1).replace(/\\(.)/g, "$1");
+  if (raw === "null") return null;
+  if (raw === "true" || raw === "false") return raw === "true";
+  return numberFromText(raw);
+}
+
+const laravelImporter: LogImporter = {
+  id: "laravel",
+  label: "Laravel",
+  example: '{"query":"select ... where id = ?", "bindings":[1]}',
+  entryStart: /"query"\s*=>/,
+  parse(text) {
+    const json = tryParseJson(text);
+    const entry = Array.isArray(json) ? json[0] : json;
+    if (isRecord(entry)) {
+      if (typeof entry.query !== "string" || !isParams(entry.bindings)) {
+        return undefined;
+      }
+      return { sql: entry.query, params: entry.bindings };
+    }
+
+    const bindings = /(?:"bindings"\s*=>\s*)?array:\d+\s*\[([\s\S]*?)\]/.exec(
+      text
+    );
+    if (!bindings) return undefined;
+    const query = /"query"\s*=>\s*"((?:[^"\\]|\\.)*)"/.exec(text);
+    const sql = query
+      ? query[1].replace(/\\(.)/g, "$1")
+      : text
+          .slice(0, bindings.index)
+          .trim()
+          .replace(/^"([\s\S]*)"$/, "$1");
+    if (!sql) return undefined;
+    const params = [...bindings[1].matchAll(PHP_VALUE)].map((m) =>
+      phpValue(m[1])
+    );
+    return { sql, params };
+  },
+};
+
+// p6spy single-line format:
+//   now|elapsed|category|connection N|url ...|prepared|sql
+// The prepared statement and its values-inlined copy are both logged, so the
+// values are recovered by lining the two up.
+const P6SPY_HEAD = /^[^|]*\|[^|]*\|\w+\|connection ?\d+\|(?:url [^|]*\|)?/;
+
+const p6spyImporter: LogImporter = {
+  id: "p6spy",
+  label: "p6spy",
+  example:
+    "1700000000|3|statement|connection 5|url jdbc:...|select ... id=?|select ... id=5",
+  entryStart: P6SPY_HEAD,
+  parse(text) {
+    const line = text.trim().split(/\r?\n/).pop() ?? "";
+    const head = P6SPY_HEAD.exec(line);
+    if (!head) return undefined;
+    const rest = line.slice(head[0].length);
+    // Either half may itself contain "|", so try each split point
+    for (let i = rest.indexOf("|"); i !== -1; i = rest.indexOf("|", i + 1)) {
+      const prepared = rest.slice(0, i);
+      const params = alignLiterals(prepared, rest.slice(i + 1));
+      if (params) return { sql: prepared, params };
+    }
+    return undefined;
+  },
+};
+
+export const LOG_IMPORTERS: LogImporter[] = [
+  jsonImporter,
+  prismaImporter,
+  laravelImporter,
+  typeormImporter,
+  sequelizeImporter,
+  hibernateImporter,
+  p6spyImporter,
+];
+
+export type ImportResult = ImportedQuery & { importer: LogImporter };
+
+/**
+ * Reads a query and its parameters out of a pasted log excerpt, using the
+ * importer with the given id or, without one, the first that recognizes it.
+ */
+export function importQueryLog(
+  text: string,
+  importerId?: string
+): ImportResult | undefined {
+  const candidates = importerId
+    ? LOG_IMPORTERS.filter((i) => i.id === importerId)
+    : LOG_IMPORTERS;
+  for (const importer of candidates) {
+    const query = importer.parse(text);
+    if (query) return { ...query, importer };
+  }
+  return undefined;
+}
+
+/**
+ * Splits a pasted excerpt into one chunk of text per query: NDJSON and JSON
+ * arrays by element, other logs at each line the importer (the given one, or
+ * whichever recognizes the most lines) takes as the start of an entry.
+ */
+export function splitQueryLog(text: string, importerId?: string): string[] {
+  const json = tryParseJson(text);
+  if (Array.isArray(json) && json.length > 0 && json.every(isRecord)) {
+    return json.map((entry) => stringifyJsonLossless(entry));
+  }
+
+  const lines = text.split(/\r?\n/);
+  const filled = lines.filter((l) => l.trim());
+  if (filled.length > 0 && filled.every((l) => isRecord(tryParseJson(l)))) {
+    return filled;
+  }
+
+  const candidates = importerId
+    ? LOG_IMPORTERS.filter((i) => i.id === importerId)
+    : LOG_IMPORTERS;
+  let best: LogImporter | undefined;
+  let bestCount = 0;
+  for (const importer of candidates) {
+    const count = lines.filter((l) => importer.entryStart.test(l)).length;
+    if (count > bestCount) {
+      best = importer;
+      bestCount = count;
+    }
+  }
+  if (!best) return filled.length > 0 ? [text.trim()] : [];
+
+  // Lines before the first entry are log noise
+  const chunks: string[][] = [];
+  for (const line of lines) {
+    if (best.entryStart.test(line)) chunks.push([]);
+    chunks[chunks.length - 1]?.push(line);
+  }
+  return chunks.map((c) => c.join("\n").trim()).filter(Boolean);
+}
@@ -0,0 +1,158 @@
+/**
+ * A JSON number whose source text doesn't survive a round trip through a JS
+ * number, e.g. 1234567890123456789 or 12.3400. The original text is kept so
+ * it can be emitted verbatim.
+ */
+export class LosslessNumber {
+  constructor(readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+// Non-standard, but common in logs written by JS and Python serializers
+const NON_FINITE: Record<string, number> = {
+  NaN: NaN,
+  Infinity: Infinity,
+  "-Infinity": -Infinity,
+};
+
+/**
+ * Parses JSON like JSON.parse, except that numbers which would lose precision
+ * come back as LosslessNumber, and NaN / Infinity / -Infinity are accepted.
+ * Throws a SyntaxError on malformed input.
+ */
+export function parseJsonLossless(text: string): unknown {
+  let i = 0;
+
+  const fail = (what: string): never => {
+    throw new SyntaxError(`${what} at position ${i}`);
+  };
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const expect = (ch: string) => {
+    skipWhitespace();
+    if (text[i] !== ch) fail(`Expected '${ch}'`);
+    i++;
+  };
+
+  const parseString = (): string => {
+    const start = i;
+    i++;
+    while (i < text.length && text[i] !== '"') {
+      i += text[i] === "\\" ? 2 : 1;
+    }
+    if (i >= text.length) fail("Unterminated string");
+    i++;
+    // The escapes are standard JSON, so let the native parser decode them
+    return JSON.parse(text.slice(start, i));
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const ch = text[i];
+
+    if (ch === "{") {
+      i++;
+      const obj: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[i] === "}") {
+        i++;
+        return obj;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[i] !== '"') fail("Expected a property name");
+        const key = parseString();
+        expect(":");
+        // Defined rather than assigned so "__proto__" becomes an own key, as
+        // with JSON.parse, instead of replacing the prototype
+        Object.defineProperty(obj, key, {
+          value: parseValue(),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        expect("}");
+        return obj;
+      }
+    }
+
+    if (ch === "[") {
+      i++;
+      const arr: unknown[] = [];
+      skipWhitespace();
+      if (text[i] === "]") {
+        i++;
+        return arr;
+      }
+      for (;;) {
+        arr.push(parseValue());
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        expect("]");
+        return arr;
+      }
+    }
+
+    if (ch === '"') return parseString();
+
+    for (const [word, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+      ...Object.entries(NON_FINITE),
+    ] as const) {
+      if (text.startsWith(word, i)) {
+        i += word.length;
+        return value;
+      }
+    }
+
+    NUMBER.lastIndex = i;
+    const match = NUMBER.exec(text);
+    if (!match) return fail("Unexpected token");
+    const source = match[0];
+    i += source.length;
+    const n = Number(source);
+    return String(n) === source ? n : new LosslessNumber(source);
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (i < text.length) fail("Unexpected trailing input");
+  return value;
+}
+
+/**
+ * JSON.stringify counterpart of parseJsonLossless: LosslessNumber values are
+ * written back as their original text. Non-finite numbers become null, as
+ * with JSON.stringify.
+ */
+export function stringifyJsonLossless(value: unknown): string {
+  if (value instanceof LosslessNumber) return value.text;
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => stringifyJsonLossless(v ?? null)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${JSON.stringify(k)}:${stringifyJsonLossless(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
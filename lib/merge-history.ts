@@ -0,0 +1,118 @@
+import { createId, loadJson, saveJson } from "./local-storage";
+import { SQL_DIALECTS, type SqlDialect } from "./sql-dialects";
+
+// One successful merge, as stored in localStorage
+export type HistoryEntry = {
+  id: string;
+  sql: string;
+  // Parameters text as typed
+  params: string;
+  dialect: SqlDialect;
+  // Milliseconds since the epoch
+  createdAt: number;
+  // First non-blank line of the SQL, for the list
+  preview: string;
+};
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 500;
+
+const HISTORY_KEY = "sql-merge:history";
+const LIMIT_KEY = "sql-merge:history-limit";
+const PREVIEW_LENGTH = 120;
+
+function isHistoryEntry(v: unknown): v is HistoryEntry {
+  const e = v as Partial<HistoryEntry> | null;
+  return (
+    typeof e === "object" &&
+    e !== null &&
+    typeof e.id === "string" &&
+    typeof e.sql === "string" &&
+    typeof e.params === "string" &&
+    SQL_DIALECTS.some((d) => d.value === e.dialect) &&
+    typeof e.createdAt === "number" &&
+    typeof e.preview === "string"
+  );
+}
+
+function previewOf(sql: string): string {
+  const line = sql.split("\n").find((l) => l.trim()) ?? "";
+  const trimmed = line.trim();
+  return trimmed.length > PREVIEW_LENGTH
+    ? `${trimmed.slice(0, PREVIEW_LENGTH - 1)}…`
+    : trimmed;
+}
+
+export function createHistoryEntry(
+  sql: string,
+  params: string,
+  dialect: SqlDialect
+): HistoryEntry {
+  return {
+    id: createId(),
+    sql,
+    params,
+    dialect,
+    createdAt: Date.now(),
+    preview: previewOf(sql),
+  };
+}
+
+/**
+ * Puts `entry` at the top of the history, dropping an older copy of the same
+ * query and anything past `limit`.
+ */
+export function addHistoryEntry(
+  entries: HistoryEntry[],
+  entry: HistoryEntry,
+  limit: number
+): HistoryEntry[] {
+  const rest = entries.filter(
+    (e) =>
+      e.sql !== entry.sql ||
+      e.params !== entry.params ||
+      e.dialect !== entry.dialect
+  );
+  return [entry, ...rest].slice(0, Math.max(limit, 0));
+}
+
+// Case-insensitive match on the SQL and parameters text
+export function searchHistory(
+  entries: HistoryEntry[],
+  query: string
+): HistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(
+    (e) =>
+      e.sql.toLowerCase().includes(needle) ||
+      e.params.toLowerCase().includes(needle)
+  );
+}
+
+export function loadHistory(): HistoryEntry[] {
+  return loadJson(
+    HISTORY_KEY,
+    (v) => (Array.isArray(v) ? v.filter(isHistoryEntry) : []),
+    []
+  );
+}
+
+export function saveHistory(entries: HistoryEntry[]): void {
+  saveJson(HISTORY_KEY, entries.length ? entries : undefined);
+}
+
+export function loadHistoryLimit(): number {
+  return loadJson(
+    LIMIT_KEY,
+    (n) =>
+      typeof n === "number" && Number.isInteger(n) && n > 0
+        ? Math.min(n, MAX_HISTORY_LIMIT)
+        : DEFAULT_HISTORY_LIMIT,
+    DEFAULT_HISTORY_LIMIT
+  );
+}
+
+export function saveHistoryLimit(limit: number): void {
+  saveJson(LIMIT_KEY, limit);
+}
@@ -0,0 +1,207 @@
+import { createId, loadJson, saveJson } from "./local-storage";
+import { SQL_DIALECTS, type SqlDialect } from "./sql-dialects";
+import type { ParamSet } from "./sql-merge";
+
+// A saved query with the parameter sets it's usually run with
+export type QueryTemplate = {
+  id: string;
+  name: string;
+  tags: string[];
+  sql: string;
+  paramSets: ParamSet[];
+  dialect?: SqlDialect;
+  // Shipped with the app; can be loaded but not edited or deleted
+  builtIn?: boolean;
+};
+
+const TEMPLATES_KEY = "sql-merge:templates";
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_TEMPLATES: QueryTemplate[] = [
+  {
+    id: "builtin:example",
+    name: "Example",
+    tags: ["example"],
+    sql: [
+      "SELECT u.id, u.name, o.id AS order_id, SUM(oi.qty * oi.price) AS total",
+      "FROM users u",
+      "JOIN orders o ON o.user_id = u.id",
+      "LEFT JOIN order_items oi ON oi.order_id = o.id",
+      "WHERE u.status = ?",
+      "  AND o.created_at BETWEEN ? AND ?",
+      "  AND o.state IN (?, ?, ?)",
+      "GROUP BY u.id, u.name, o.id",
+      "HAVING SUM(oi.qty * oi.price) > ?",
+      "ORDER BY total DESC, u.name ASC",
+      "LIMIT ?",
+    ].join(" "),
+    paramSets: [
+      {
+        name: "default",
+        params:
+          '["active", "2024-01-01", "2024-12-31", "processing", "shipped", "delivered", 1000, 50]',
+      },
+    ],
+    builtIn: true,
+  },
+  {
+    id: "builtin:advanced-example",
+    name: "Advanced example",
+    tags: ["example"],
+    sql: [
+      "WITH recent_orders AS (",
+      "  SELECT o.id, o.user_id, SUM(oi.qty * oi.price) AS total",
+      "  FROM orders o",
+      "  JOIN order_items oi ON oi.order_id = o.id",
+      "  WHERE o.created_at >= ?",
+      "  GROUP BY o.id, o.user_id",
+      ")",
+      "SELECT u.id, u.name, ro.total,",
+      "  COUNT(*) OVER (PARTITION BY u.id) AS order_count",
+      "FROM users u",
+      "JOIN recent_orders ro ON ro.user_id = u.id",
+      "LEFT JOIN payments p ON p.order_id = ro.id AND p.status IN (?, ?)",
+      "WHERE u.region = ?",
+      "  AND ro.total > ?",
+      "  AND u.name LIKE ?",
+      "  AND u.id IN (?, ?)",
+      "GROUP BY u.id, u.name, ro.total",
+      "HAVING COUNT(p.id) >= ?",
+      "ORDER BY ro.total DESC, u.name ASC",
+      "LIMIT ?",
+      "OFFSET ?",
+    ].join(" "),
+    paramSets: [
+      {
+        name: "default",
+        params:
+          '["2025-01-01", "succeeded", "pending", "NA", 500, "%son%", 101, 202, 1, 25, 0]',
+      },
+    ],
+    builtIn: true,
+  },
+];
+
+function isParamSet(v: unknown): v is ParamSet {
+  const p = v as Partial<ParamSet> | null;
+  return (
+    typeof p === "object" &&
+    p !== null &&
+    typeof p.name === "string" &&
+    typeof p.params === "string"
+  );
+}
+
+// Drops the built-in flag so stored or imported copies are always editable
+function asUserTemplate(t: QueryTemplate): QueryTemplate {
+  const { id, name, tags, sql, paramSets, dialect } = t;
+  return { id, name, tags, sql, paramSets, dialect };
+}
+
+// Validates a stored or imported template and returns an editable copy
+function toUserTemplate(v: unknown): QueryTemplate | undefined {
+  const t = v as Partial<QueryTemplate> | null;
+  if (typeof t !== "object" || t === null) return undefined;
+  const { paramSets } = t;
+  if (
+    typeof t.id !== "string" ||
+    typeof t.name !== "string" ||
+    !Array.isArray(t.tags) ||
+    !t.tags.every((tag) => typeof tag === "string") ||
+    typeof t.sql !== "string" ||
+    !Array.isArray(paramSets) ||
+    paramSets.length === 0 ||
+    !paramSets.every(isParamSet) ||
+    (t.dialect !== undefined &&
+      !SQL_DIALECTS.some((d) => d.value === t.dialect))
+  ) {
+    return undefined;
+  }
+  return asUserTemplate(t as QueryTemplate);
+}
+
+// Splits "a, b ,,c" into ["a", "b", "c"], dropping duplicates
+export function parseTags(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+export function createTemplate(
+  fields: Omit<QueryTemplate, "id" | "builtIn">
+): QueryTemplate {
+  return { ...fields, id: createId() };
+}
+
+export function loadTemplates(): QueryTemplate[] {
+  return loadJson(
+    TEMPLATES_KEY,
+    (v) =>
+      Array.isArray(v)
+        ? v
+            .map(toUserTemplate)
+            .filter((t): t is QueryTemplate => t !== undefined)
+        : [],
+    []
+  );
+}
+
+export function saveTemplates(templates: QueryTemplate[]): void {
+  saveJson(TEMPLATES_KEY, templates);
+}
+
+/**
+ * Serializes user templates for sharing. Built-ins are left out since every
+ * copy of the app already has them.
+ */
+export function exportTemplates(templates: QueryTemplate[]): string {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      templates: templates.filter((t) => !t.builtIn).map(asUserTemplate),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads a file written by exportTemplates (a bare array of templates is also
+ * accepted). Throws an Error describing the problem if the file isn't one.
+ */
+export function importTemplates(text: string): QueryTemplate[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Template file is not valid JSON.");
+  }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { templates?: unknown } | null)?.templates;
+  if (!Array.isArray(list)) {
+    throw new Error('Template file must contain a "templates" array.');
+  }
+  const imported = list.map(toUserTemplate);
+  const invalid = imported.indexOf(undefined);
+  if (invalid !== -1) {
+    throw new Error(`Template ${invalid + 1} in the file is malformed.`);
+  }
+  return (imported as QueryTemplate[]).filter(
+    (t) => !t.id.startsWith("builtin:")
+  );
+}
+
+// Adds `incoming` to `existing`; a template with the same id is replaced
+export function mergeTemplates(
+  existing: QueryTemplate[],
+  incoming: QueryTemplate[]
+): QueryTemplate[] {
+  const ids = new Set(incoming.map((t) => t.id));
+  return [...existing.filter((t) => !ids.has(t.id)), ...incoming];
+}
@@ -0,0 +1,117 @@
+import { SQL_DIALECTS, type SqlDialect } from "./sql-dialects";
+import type { FormatMode } from "./sql-merge";
+
+// What a shared link restores. `params` is the Parameters text as typed, so
+// big numbers and formatting survive the trip.
+export type SharedQuery = {
+  sql: string;
+  params: string;
+  dialect?: SqlDialect;
+  format?: FormatMode;
+};
+
+// The fragment key; bump it if the encoding ever changes
+const FRAGMENT_KEY = "q";
+
+// Compression Streams postdate the lib.dom typings of our TypeScript version
+type ByteStreams = Record<
+  "CompressionStream" | "DecompressionStream",
+  new (format: "deflate-raw") => TransformStream<Uint8Array, Uint8Array>
+>;
+
+async function pipeBytes(
+  bytes: Uint8Array,
+  direction: keyof ByteStreams
+): Promise<Uint8Array> {
+  const Transform = (globalThis as unknown as ByteStreams)[direction];
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new Transform("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function isDialect(v: unknown): v is SqlDialect {
+  return SQL_DIALECTS.some((d) => d.value === v);
+}
+
+function isFormatMode(v: unknown): v is FormatMode {
+  return v === "beautify" || v === "minify";
+}
+
+/**
+ * Encodes a query as a URL fragment (without the leading "#"): compact JSON,
+ * deflated and base64url-encoded.
+ */
+export async function encodeShareFragment(query: SharedQuery): Promise<string> {
+  const json = JSON.stringify({
+    s: query.sql,
+    p: query.params,
+    d: query.dialect,
+    f: query.format,
+  });
+  const packed = await pipeBytes(
+    new TextEncoder().encode(json),
+    "CompressionStream"
+  );
+  return `${FRAGMENT_KEY}=${toBase64Url(packed)}`;
+}
+
+/**
+ * Reverses encodeShareFragment. Returns undefined for fragments it didn't
+ * write or that were truncated along the way.
+ */
+export async function decodeShareFragment(
+  fragment: string
+): Promise<SharedQuery | undefined> {
+  const params = new URLSearchParams(fragment.replace(/^#/, ""));
+  const packed = params.get(FRAGMENT_KEY);
+  if (!packed) return undefined;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(packed), "DecompressionStream");
+    const data = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof data?.s !== "string" || typeof data.p !== "string") {
+      return undefined;
+    }
+    return {
+      sql: data.s,
+      params: data.p,
+      dialect: isDialect(data.d) ? data.d : undefined,
+      format: isFormatMode(data.f) ? data.f : undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads a prefill from a query string: ?sql=...&values=...&dialect=...&format=...
+ * for tools that open the page with a query already filled in.
+ */
+export function queryFromSearchParams(
+  search: URLSearchParams
+): SharedQuery | undefined {
+  const sql = search.get("sql");
+  if (sql === null) return undefined;
+  const dialect = search.get("dialect");
+  const format = search.get("format");
+  return {
+    sql,
+    params: search.get("values") ?? "[]",
+    dialect: isDialect(dialect) ? dialect : undefined,
+    format: isFormatMode(format) ? format : undefined,
+  };
+}
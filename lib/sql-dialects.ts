@@ -0,0 +1,11 @@
+export type SqlDialect =
+  "generic" | "mysql" | "postgres" | "sqlite" | "sqlserver" | "oracle";
+
+export const SQL_DIALECTS: { value: SqlDialect; label: string }[] = [
+  { value: "generic", label: "Generic SQL" },
+  { value: "mysql", label: "MySQL / MariaDB" },
+  { value: "postgres", label: "PostgreSQL" },
+  { value: "sqlite", label: "SQLite" },
+  { value: "sqlserver", label: "SQL Server" },
+  { value: "oracle", label: "Oracle" },
+];
@@ -0,0 +1,393 @@
+import type { SqlDialect } from "./sql-dialects";
+import { isLineComment, tokenizeSql, type SqlToken } from "./sql-lexer";
+
+// The layout options worth choosing between. They follow
+// poor-mans-t-sql-formatter's names; see its README for what each one does.
+// formatSql honours all but maxLineWidth and expandBetweenConditions.
+export type BeautifyOptions = {
+  // A tab or a run of spaces
+  indent: string;
+  maxLineWidth: number;
+  statementBreaks: number;
+  clauseBreaks: number;
+  expandCommaLists: boolean;
+  // false puts the comma at the start of the next line
+  trailingCommas: boolean;
+  spaceAfterExpandedComma: boolean;
+  expandBooleanExpressions: boolean;
+  expandCaseStatements: boolean;
+  expandBetweenConditions: boolean;
+  expandInLists: boolean;
+  breakJoinOnSections: boolean;
+  uppercaseKeywords: boolean;
+};
+
+// Readability-focused settings similar to beautifycode.net
+export const DEFAULT_BEAUTIFY_OPTIONS: BeautifyOptions = {
+  indent: "  ",
+  maxLineWidth: 100,
+  statementBreaks: 2,
+  clauseBreaks: 1,
+  expandCommaLists: true,
+  trailingCommas: true,
+  spaceAfterExpandedComma: true,
+  expandBooleanExpressions: true,
+  expandCaseStatements: true,
+  expandBetweenConditions: true,
+  expandInLists: true,
+  breakJoinOnSections: true,
+  uppercaseKeywords: true,
+};
+
+// A parenthesized run of the query; `close` is missing when unbalanced
+type ParenGroup = { open: SqlToken; items: FormatNode[]; close?: SqlToken };
+type FormatNode = SqlToken | ParenGroup;
+
+function isGroup(node: FormatNode): node is ParenGroup {
+  return "items" in node;
+}
+
+// Keywords that start a new line, longest phrases first so e.g. UNION ALL
+// wins over UNION. Each maps to the clause it opens.
+const CLAUSES: [string[], string][] = [
+  [["on", "duplicate", "key", "update"], "set"],
+  [["left", "outer", "join"], "join"],
+  [["right", "outer", "join"], "join"],
+  [["full", "outer", "join"], "join"],
+  [["do", "update", "set"], "set"],
+  [["insert", "into"], "insert"],
+  [["delete", "from"], "from"],
+  [["union", "all"], "union"],
+  [["group", "by"], "group by"],
+  [["order", "by"], "order by"],
+  [["on", "conflict"], "on conflict"],
+  [["do", "nothing"], "on conflict"],
+  [["for", "update"], "for"],
+  [["for", "share"], "for"],
+  [["left", "join"], "join"],
+  [["right", "join"], "join"],
+  [["full", "join"], "join"],
+  [["inner", "join"], "join"],
+  [["cross", "join"], "join"],
+  [["natural", "join"], "join"],
+  [["with", "recursive"], "with"],
+  [["with"], "with"],
+  [["select"], "select"],
+  [["from"], "from"],
+  [["join"], "join"],
+  [["where"], "where"],
+  [["having"], "having"],
+  [["window"], "window"],
+  [["limit"], "limit"],
+  [["offset"], "offset"],
+  [["fetch"], "fetch"],
+  [["returning"], "returning"],
+  [["union"], "union"],
+  [["except"], "union"],
+  [["intersect"], "union"],
+  [["values"], "values"],
+  [["update"], "update"],
+  [["set"], "set"],
+];
+
+// Clauses whose top-level commas separate items worth a line each
+const LIST_CLAUSES = new Set([
+  "with",
+  "select",
+  "group by",
+  "order by",
+  "set",
+  "values",
+  "returning",
+  "window",
+]);
+
+// Clauses whose top-level AND / OR start a new line
+const CONDITION_CLAUSES = new Set(["where", "having", "join"]);
+
+function lower(node: FormatNode | undefined): string {
+  return node && !isGroup(node) ? node.text.toLowerCase() : "";
+}
+
+// Nests the tokens by parentheses. Stray closing parentheses stay tokens.
+function buildTree(tokens: SqlToken[]): FormatNode[] {
+  const root: FormatNode[] = [];
+  const open: ParenGroup[] = [];
+  const items = () => open[open.length - 1]?.items ?? root;
+  for (const token of tokens) {
+    if (token.type === "operator" && token.text === "(") {
+      const group: ParenGroup = { open: token, items: [] };
+      items().push(group);
+      open.push(group);
+    } else if (token.type === "operator" && token.text === ")" && open.length) {
+      open.pop()!.close = token;
+    } else {
+      items().push(token);
+    }
+  }
+  return root;
+}
+
+// A parenthesized query rather than an expression or argument list
+function isSubquery(group: ParenGroup): boolean {
+  const first = group.items.find((n) => isGroup(n) || n.type !== "comment");
+  return ["select", "with"].includes(lower(first));
+}
+
+function matchClause(
+  items: FormatNode[],
+  i: number
+): { words: number; clause: string } | undefined {
+  for (const [phrase, clause] of CLAUSES) {
+    if (phrase.every((word, k) => lower(items[i + k]) === word)) {
+      return { words: phrase.length, clause };
+    }
+  }
+  return undefined;
+}
+
+// Operators that get a space on either side even when written without one
+const SPACED_OPERATORS = new Set([
+  "=",
+  "<",
+  ">",
+  "<=",
+  ">=",
+  "<>",
+  "!=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "||",
+  "->",
+  "->>",
+  ":=",
+]);
+
+// Whether to put a space between two tokens written on the same line
+function spaced(prev: SqlToken, token: SqlToken): boolean {
+  if ([",", ";", ".", ")", "]", "::"].includes(token.text)) return false;
+  if (["(", "[", ".", "::"].includes(prev.text)) return false;
+  const named = prev.type === "identifier" || prev.type === "quotedIdentifier";
+  // Function calls, sized types and array subscripts
+  if (token.text === "(" && named) return false;
+  if (token.text === "[" && (named || prev.text === "]")) return false;
+  // Operators the lexer splits, like Postgres @> or ?|, and prefixed strings
+  // such as N'...' or E'...', stay as written
+  if (prev.end === token.start) {
+    if (prev.type === "operator" && token.type === "operator") return false;
+    if (prev.type === "identifier" && token.type === "string") return false;
+    // Anything else written together only gets the usual space around
+    // operators and parentheses; a character the lexer doesn't know must
+    // not split the word it sits in
+    return [prev.text, token.text].some(
+      (text) => SPACED_OPERATORS.has(text) || text === "(" || text === ")"
+    );
+  }
+  return true;
+}
+
+/**
+ * Dependency-free formatter that follows the query's structure: clauses start
+ * new lines, subqueries and CTE bodies are indented inside their
+ * parentheses, and the AND of BETWEEN stays with it. Comments and literals
+ * are kept as written.
+ */
+export function formatSql(
+  input: string,
+  dialect: SqlDialect = "generic",
+  options: BeautifyOptions = DEFAULT_BEAUTIFY_OPTIONS
+): string {
+  const tokens = tokenizeSql(input, { dialect }).filter(
+    (t) => t.type !== "whitespace"
+  );
+  if (!tokens.length) return "";
+
+  const lines: string[] = [];
+  let line = "";
+  let depth = 0;
+  let prev: SqlToken | undefined;
+  // Set after a unary sign or a leading comma that takes no space
+  let glue = false;
+
+  const breakLine = (nextDepth: number, blankLines = 0) => {
+    if (line) {
+      lines.push(options.indent.repeat(depth) + line);
+      for (let n = 0; n < blankLines; n++) lines.push("");
+    }
+    line = "";
+    depth = nextDepth;
+  };
+
+  const write = (token: SqlToken, text = token.text, space = false) => {
+    if (line && prev && !glue && (space || spaced(prev, token))) line += " ";
+    line += text;
+    const unary =
+      (token.text === "-" || token.text === "+") &&
+      (!prev ||
+        prev.type === "keyword" ||
+        (prev.type === "operator" && prev.text !== ")" && prev.text !== "]"));
+    glue = unary;
+    prev = token;
+    if (isLineComment(token)) breakLine(depth);
+  };
+
+  const writeWord = (token: SqlToken, keyword = token.type === "keyword") =>
+    write(
+      token,
+      !keyword
+        ? undefined
+        : options.uppercaseKeywords
+          ? token.text.toUpperCase()
+          : token.text.toLowerCase()
+    );
+
+  const writeComma = (token: SqlToken, itemDepth: number) => {
+    if (options.trailingCommas) {
+      write(token);
+      breakLine(itemDepth);
+    } else {
+      breakLine(itemDepth);
+      write(token);
+      glue = !options.spaceAfterExpandedComma;
+    }
+  };
+
+  // `list` marks the parentheses of an IN (...), `space` a column list
+  // that would otherwise read as a function call, as in INSERT INTO t (a, b)
+  const writeGroup = (group: ParenGroup, list = false, space = false) => {
+    const outer = depth;
+    write(group.open, undefined, space);
+    if (isSubquery(group)) {
+      breakLine(outer + 1);
+      writeClauses(group.items);
+      breakLine(outer);
+    } else if (
+      list &&
+      options.expandInLists &&
+      group.items.some((n) => !isGroup(n) && n.text === ",")
+    ) {
+      breakLine(outer + 1);
+      for (const node of group.items) {
+        if (isGroup(node)) writeGroup(node);
+        else if (node.text === ",") writeComma(node, outer + 1);
+        else writeWord(node);
+      }
+      breakLine(outer);
+    } else {
+      for (const node of group.items) {
+        if (isGroup(node)) writeGroup(node);
+        else writeWord(node);
+      }
+    }
+    if (group.close) write(group.close);
+  };
+
+  const writeClauses = (items: FormatNode[]) => {
+    const base = depth;
+    let clause = "";
+    let conditionDepth = base + 1;
+    let inBetween = false;
+    // Set right after a clause keyword, so ON CONFLICT (a) keeps its space
+    let clauseEnd = false;
+    // Line depth of each CASE being written, innermost last
+    const cases: number[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      const node = items[i];
+      if (isGroup(node)) {
+        writeGroup(
+          node,
+          lower(items[i - 1]) === "in",
+          clause === "insert" || clauseEnd
+        );
+        clauseEnd = false;
+        continue;
+      }
+      clauseEnd = false;
+
+      let match = cases.length ? undefined : matchClause(items, i);
+      // MySQL's ON DUPLICATE KEY UPDATE a = VALUES(a) is a function call
+      if (match?.clause === "values" && clause === "set") match = undefined;
+      // WITH opens a statement or subquery; later it's part of something
+      // else, as in WITH TIME ZONE, WITH ROLLUP or WITH TIES
+      if (match?.clause === "with" && clause) match = undefined;
+      if (match) {
+        breakLine(base, Math.max(0, options.clauseBreaks - 1));
+        for (let k = 0; k < match.words; k++) {
+          writeWord(items[i + k] as SqlToken, true);
+        }
+        i += match.words - 1;
+        clause = match.clause;
+        conditionDepth = base + 1;
+        inBetween = false;
+        clauseEnd = true;
+        continue;
+      }
+
+      const word = lower(node);
+      if (
+        node.text === "," &&
+        !cases.length &&
+        options.expandCommaLists &&
+        LIST_CLAUSES.has(clause)
+      ) {
+        // CTEs line up with WITH; other list items indent under the clause
+        writeComma(node, clause === "with" ? base : base + 1);
+        continue;
+      }
+      if (word === "between") inBetween = true;
+      if ((word === "and" || word === "or") && !cases.length) {
+        if (word === "and" && inBetween) {
+          inBetween = false;
+        } else if (
+          options.expandBooleanExpressions &&
+          CONDITION_CLAUSES.has(clause)
+        ) {
+          breakLine(conditionDepth);
+        }
+      }
+      if (word === "on" && clause === "join" && options.breakJoinOnSections) {
+        breakLine(base + 1);
+        conditionDepth = base + 2;
+      }
+      if (options.expandCaseStatements) {
+        if (word === "case") {
+          writeWord(node);
+          cases.push(depth);
+          continue;
+        }
+        if ((word === "when" || word === "else") && cases.length) {
+          breakLine(cases[cases.length - 1] + 1);
+        } else if (word === "end" && cases.length) {
+          breakLine(cases.pop()!);
+        }
+      }
+      writeWord(node);
+    }
+  };
+
+  // Statements are split at top-level semicolons
+  const tree = buildTree(tokens);
+  let statement: FormatNode[] = [];
+  const statements: { items: FormatNode[]; end?: SqlToken }[] = [];
+  for (const node of tree) {
+    if (!isGroup(node) && node.text === ";") {
+      statements.push({ items: statement, end: node });
+      statement = [];
+    } else {
+      statement.push(node);
+    }
+  }
+  if (statement.length) statements.push({ items: statement });
+
+  statements.forEach(({ items, end }, n) => {
+    if (n > 0) breakLine(0, Math.max(0, options.statementBreaks - 1));
+    writeClauses(items);
+    if (end) write(end);
+  });
+  breakLine(0);
+  return lines.join("\n");
+}
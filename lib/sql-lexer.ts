@@ -0,0 +1,317 @@
+import type { SqlDialect } from "./sql-dialects";
+
+export type SqlTokenType =
+  | "keyword"
+  | "identifier"
+  | "quotedIdentifier"
+  | "string"
+  | "number"
+  | "operator"
+  | "placeholder"
+  | "comment"
+  | "whitespace";
+
+export type SqlToken = {
+  type: SqlTokenType;
+  text: string;
+  // Offsets into the source string; `end` is exclusive
+  start: number;
+  end: number;
+  // Set on strings, quoted identifiers and block comments that reach the end
+  // of the input without being closed
+  unterminated?: boolean;
+};
+
+export type TokenizeOptions = {
+  // Decides dialect-specific lexing: only MySQL starts a comment with `#` (it
+  // names temp tables in SQL Server and is an operator in Postgres) or treats
+  // a backslash inside a string as an escape, and `@name` is a placeholder
+  // everywhere but MySQL (user variables) and Postgres.
+  dialect?: SqlDialect;
+};
+
+export const SQL_KEYWORDS = new Set([
+  "select",
+  "from",
+  "where",
+  "group",
+  "by",
+  "having",
+  "order",
+  "limit",
+  "offset",
+  "join",
+  "left",
+  "right",
+  "inner",
+  "outer",
+  "cross",
+  "on",
+  "and",
+  "or",
+  "union",
+  "all",
+  "into",
+  "values",
+  "set",
+  "update",
+  "insert",
+  "delete",
+  "distinct",
+  "as",
+  "case",
+  "when",
+  "then",
+  "end",
+  "is",
+  "null",
+  "like",
+  "in",
+  "exists",
+  "not",
+  "between",
+  "top",
+  "else",
+  "with",
+  "recursive",
+  "over",
+  "partition",
+  "window",
+  "returning",
+  "using",
+  "except",
+  "intersect",
+  "full",
+]);
+
+// Longest first so e.g. "->>" wins over "->"
+const MULTI_CHAR_OPERATORS = [
+  "->>",
+  "->",
+  "<=",
+  ">=",
+  "<>",
+  "!=",
+  "||",
+  "::",
+  ":=",
+];
+
+const QUOTE_TYPES: Record<string, SqlTokenType> = {
+  "'": "string",
+  '"': "quotedIdentifier",
+  "`": "quotedIdentifier",
+};
+
+// Returns the index just past a comment starting at `i`, or -1 if none starts
+// there; a block left open runs to the end and is reported as unterminated.
+// Understands `-- ...` and MySQL `# ...` line comments (the newline is not
+// part of the comment) and `/* ... */` blocks, which may nest as in Postgres.
+function commentEnd(
+  sql: string,
+  i: number,
+  hashComments: boolean
+): { end: number; unterminated: boolean } | -1 {
+  const ch = sql[i];
+  const next = sql[i + 1];
+  if ((ch === "-" && next === "-") || (hashComments && ch === "#")) {
+    const nl = sql.indexOf("\n", i);
+    return { end: nl === -1 ? sql.length : nl, unterminated: false };
+  }
+  if (ch === "/" && next === "*") {
+    let depth = 1;
+    let j = i + 2;
+    while (j < sql.length && depth > 0) {
+      if (sql[j] === "/" && sql[j + 1] === "*") {
+        depth++;
+        j += 2;
+      } else if (sql[j] === "*" && sql[j + 1] === "/") {
+        depth--;
+        j += 2;
+      } else {
+        j++;
+      }
+    }
+    return { end: j, unterminated: depth > 0 };
+  }
+  return -1;
+}
+
+// Returns the index just past a quoted run opened at `i`. A doubled quote
+// ('' inside '...') is an escape, not a terminator, as is a backslash-escaped
+// one when `backslashEscapes` is set. Returns -1 if the run is never closed.
+function quotedEnd(sql: string, i: number, backslashEscapes: boolean): number {
+  const quote = sql[i];
+  let j = i + 1;
+  while (j < sql.length) {
+    if (backslashEscapes && sql[j] === "\\") {
+      j += 2;
+      continue;
+    }
+    if (sql[j] === quote) {
+      if (sql[j + 1] === quote) {
+        j += 2;
+        continue;
+      }
+      return j + 1;
+    }
+    j++;
+  }
+  return -1;
+}
+
+// Letters in any script, so names like café or größe stay one token
+const WORD_START = /[\p{L}_]/u;
+const WORD_PART = /[\p{L}\p{N}_$]/u;
+
+function readWhile(sql: string, i: number, re: RegExp): number {
+  let j = i;
+  while (j < sql.length && re.test(sql[j])) j++;
+  return j;
+}
+
+function numberEnd(sql: string, i: number): number {
+  let j = readWhile(sql, i, /[0-9_]/);
+  if (sql[j] === "." && /[0-9]/.test(sql[j + 1] ?? "")) {
+    j = readWhile(sql, j + 1, /[0-9_]/);
+  } else if (sql[j] === "." && j > i) {
+    // trailing dot as in "1."
+    j++;
+  }
+  if (/[eE]/.test(sql[j] ?? "") && /[0-9]/.test(sql[j + 1] ?? "")) {
+    j = readWhile(sql, j + 1, /[0-9]/);
+  } else if (
+    /[eE]/.test(sql[j] ?? "") &&
+    /[+-]/.test(sql[j + 1] ?? "") &&
+    /[0-9]/.test(sql[j + 2] ?? "")
+  ) {
+    j = readWhile(sql, j + 2, /[0-9]/);
+  }
+  return j;
+}
+
+/**
+ * Splits SQL into a flat list of tokens that covers the input exactly:
+ * concatenating every token's `text` gives back the source string.
+ */
+export function tokenizeSql(
+  sql: string,
+  options: TokenizeOptions = {}
+): SqlToken[] {
+  const dialect = options.dialect ?? "generic";
+  const hashComments = dialect === "mysql";
+  const atPlaceholders = dialect !== "mysql" && dialect !== "postgres";
+  // Open square brackets; `:` inside them slices an array, as in arr[1:n]
+  let brackets = 0;
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number, unterminated = false) => {
+    const token: SqlToken = { type, text: sql.slice(i, end), start: i, end };
+    if (unterminated) token.unterminated = true;
+    tokens.push(token);
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1] ?? "";
+
+    if (ch === ":" && next === ":") {
+      push("operator", i + 2);
+      continue;
+    }
+
+    const comment = commentEnd(sql, i, hashComments);
+    if (comment !== -1) {
+      push("comment", comment.end, comment.unterminated);
+      continue;
+    }
+
+    if (ch in QUOTE_TYPES) {
+      const backslashEscapes = dialect === "mysql" && ch === "'";
+      const end = quotedEnd(sql, i, backslashEscapes);
+      // An unclosed quote swallows the rest of the input
+      push(QUOTE_TYPES[ch], end === -1 ? sql.length : end, end === -1);
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      push("whitespace", readWhile(sql, i, /\s/));
+      continue;
+    }
+
+    if (ch === "?") {
+      push("placeholder", i + 1);
+      continue;
+    }
+
+    // Postgres-style numbered placeholder: $1, $2, ...
+    if (ch === "$" && /[0-9]/.test(next)) {
+      push("placeholder", readWhile(sql, i + 1, /[0-9]/));
+      continue;
+    }
+
+    // Named placeholders: :name (Hibernate/JDBI) and @name (SQL Server).
+    // "::" casts are consumed as an operator before reaching here, and
+    // @@globals are left alone.
+    const named =
+      ch === ":"
+        ? brackets === 0 && sql[i - 1] !== ":"
+        : ch === "@" && atPlaceholders && sql[i - 1] !== "@";
+    if (named && /[A-Za-z_]/.test(next)) {
+      push("placeholder", readWhile(sql, i + 1, /[A-Za-z0-9_]/));
+      continue;
+    }
+
+    // psycopg-style named placeholder: %(name)s
+    const pyformat = /%\(([^()\s]+)\)s/y;
+    pyformat.lastIndex = i;
+    if (ch === "%" && pyformat.test(sql)) {
+      push("placeholder", pyformat.lastIndex);
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(next))) {
+      push("number", numberEnd(sql, i));
+      continue;
+    }
+
+    if (WORD_START.test(ch)) {
+      const end = readWhile(sql, i, WORD_PART);
+      const word = sql.slice(i, end);
+      push(
+        SQL_KEYWORDS.has(word.toLowerCase()) ? "keyword" : "identifier",
+        end
+      );
+      continue;
+    }
+
+    const op = MULTI_CHAR_OPERATORS.find((o) => sql.startsWith(o, i));
+    if (ch === "[") brackets++;
+    if (ch === "]" && brackets > 0) brackets--;
+    push("operator", i + (op ? op.length : 1));
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns the parameter name a named placeholder binds (`:id`, `@id` and
+ * `%(id)s` all bind "id"), or undefined for positional `?` / `$n`.
+ */
+export function placeholderName(token: SqlToken): string | undefined {
+  if (token.type !== "placeholder") return undefined;
+  if (token.text.startsWith("%(")) return token.text.slice(2, -2);
+  if (token.text[0] === ":" || token.text[0] === "@") {
+    return token.text.slice(1);
+  }
+  return undefined;
+}
+
+export function isLineComment(token: SqlToken): boolean {
+  return (
+    token.type === "comment" &&
+    (token.text.startsWith("--") || token.text.startsWith("#"))
+  );
+}
@@ -0,0 +1,1313 @@
+import {
+  LosslessNumber,
+  parseJsonLossless,
+  stringifyJsonLossless,
+} from "./lossless-json";
+import type { SqlDialect } from "./sql-dialects";
+import {
+  DEFAULT_BEAUTIFY_OPTIONS,
+  formatSql,
+  type BeautifyOptions,
+} from "./sql-formatter";
+import {
+  isLineComment,
+  placeholderName,
+  tokenizeSql,
+  type SqlToken,
+  type SqlTokenType,
+} from "./sql-lexer";
+
+// Positional values for `?` / `$n`, or values keyed by name for named placeholders
+export type SqlParams = unknown[] | Record<string, unknown>;
+
+// How an array bound to a single placeholder is rendered
+export type ArrayMode =
+  // JSON text, e.g. '[1,2,3]'
+  | "off"
+  // Comma-separated literals for IN (?): 1, 2, 3
+  | "list"
+  // Postgres array constructor: ARRAY[1, 2, 3]
+  | "pgArray"
+  // Postgres array literal: '{1,2,3}'
+  | "pgLiteral";
+
+export const ARRAY_MODES: {
+  value: ArrayMode;
+  label: string;
+  postgres?: boolean;
+}[] = [
+  { value: "off", label: "As JSON" },
+  { value: "list", label: "Expand to list" },
+  { value: "pgArray", label: "ARRAY[...]", postgres: true },
+  { value: "pgLiteral", label: "'{...}' literal", postgres: true },
+];
+
+// How merged SQL is laid out: pretty-printed, or squeezed onto one line
+export type FormatMode = "beautify" | "minify";
+
+/**
+ * Options shared by every entry point below; each reads only the fields it
+ * needs and all of them are optional.
+ */
+export type MergeOptions = {
+  // Decides lexing and literal syntax; defaults to "generic"
+  dialect?: SqlDialect;
+  arrays?: ArrayMode;
+  // Wrap JSON objects (and arrays, when not expanded) in the dialect's JSON cast
+  jsonCast?: boolean;
+  // Placeholder spelling parameterizeSql emits; defaults to "?"
+  placeholderStyle?: PlaceholderStyle;
+  // Layout applied by formatMergedSql; without it the SQL is left as merged
+  format?: FormatMode;
+  // Style for format "beautify"; defaults to DEFAULT_BEAUTIFY_OPTIONS
+  beautify?: BeautifyOptions;
+};
+
+// How each dialect turns a quoted JSON string into a JSON value
+export const JSON_CASTS: Record<SqlDialect, (literal: string) => string> = {
+  generic: (literal) => `CAST(${literal} AS JSON)`,
+  mysql: (literal) => `CAST(${literal} AS JSON)`,
+  postgres: (literal) => `${literal}::jsonb`,
+  sqlite: (literal) => `json(${literal})`,
+  sqlserver: (literal) => `JSON_QUERY(${literal})`,
+  oracle: (literal) => `TREAT(${literal} AS JSON)`,
+};
+
+export type DiagnosticCode =
+  | "unterminated_string"
+  | "unterminated_identifier"
+  | "unterminated_comment"
+  | "mixed_placeholders"
+  | "wrong_params_shape"
+  | "too_many_parameters"
+  | "not_enough_parameters"
+  | "unsupported_value"
+  | "non_finite_number"
+  | "empty_array";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+// Offsets into the SQL; `end` is exclusive, as with SqlToken
+export type SourceRange = { start: number; end: number };
+
+/**
+ * One problem found while merging. Errors mean the result isn't finished SQL;
+ * warnings merged but deserve a second look.
+ */
+export type Diagnostic = {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  // Where in the SQL the problem is; absent when it isn't tied to one spot,
+  // e.g. a parameter no placeholder uses
+  range?: SourceRange;
+};
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === "error");
+}
+
+/**
+ * Converts an offset into `sql` to a 1-based line and column.
+ */
+export function positionAt(
+  sql: string,
+  offset: number
+): { line: number; column: number } {
+  const before = sql.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length,
+    column: offset - lineStart + 1,
+  };
+}
+
+/**
+ * Outcome of mergeSql. `result` is always set: on error it holds the SQL with
+ * whatever could be merged (or the input unchanged when nothing could), and
+ * `diagnostics` say why.
+ */
+export type MergeResult = {
+  result: string;
+  // Distinct parameter slots referenced by the SQL
+  placeholderCount: number;
+  // 1-based indexes of provided parameters that no placeholder referenced
+  unusedIndexes: number[];
+  // 1-based indexes referenced by a placeholder but not provided
+  missingIndexes: number[];
+  // Same as above, for named placeholders and object keys
+  unusedNames: string[];
+  missingNames: string[];
+  diagnostics: Diagnostic[];
+  // Where each bound value landed in `result`, in order
+  literals: MergedLiteral[];
+};
+
+// A rendered value in merged SQL, and the parameter it came from
+export type MergedLiteral = SourceRange & {
+  // 1-based index for positional placeholders, the name for named ones
+  binding: number | string;
+  // The placeholder as written, e.g. "?", "$2" or ":id"
+  placeholder: string;
+};
+
+// Same problem at several placeholders, e.g. a repeated :id, is reported once
+function addDiagnostic(diagnostics: Diagnostic[], diagnostic: Diagnostic) {
+  const seen = diagnostics.some(
+    (d) => d.code === diagnostic.code && d.message === diagnostic.message
+  );
+  if (!seen) diagnostics.push(diagnostic);
+}
+
+const UNTERMINATED: Partial<
+  Record<SqlTokenType, { code: DiagnosticCode; what: string; opener: number }>
+> = {
+  string: { code: "unterminated_string", what: "string literal", opener: 1 },
+  quotedIdentifier: {
+    code: "unterminated_identifier",
+    what: "quoted identifier",
+    opener: 1,
+  },
+  comment: { code: "unterminated_comment", what: "block comment", opener: 2 },
+};
+
+// Unclosed quotes and comments swallow the rest of the query, placeholders
+// included, so they're reported before anything else
+function unterminatedDiagnostics(tokens: SqlToken[]): Diagnostic[] {
+  return tokens.flatMap((t) => {
+    const kind = UNTERMINATED[t.type];
+    if (!t.unterminated || !kind) return [];
+    return [
+      {
+        code: kind.code,
+        severity: "error" as const,
+        message: `Unterminated ${kind.what}; everything after it is read as part of it.`,
+        range: { start: t.start, end: t.start + kind.opener },
+      },
+    ];
+  });
+}
+
+function tokenRange(token: SqlToken): SourceRange {
+  return { start: token.start, end: token.end };
+}
+
+// Explicitly typed values for things plain JSON can't express, e.g.
+// {"type": "timestamp", "value": "2024-01-01T10:00:00Z"} or
+// {"type": "bytes", "base64": "3q2+7w=="}
+export type TypedParam =
+  | { type: "timestamp" | "date" | "time" | "decimal"; value: string }
+  | { type: "bytes"; base64?: string; hex?: string };
+
+const TYPED_PARAM_KEYS = new Set(["type", "value", "base64", "hex"]);
+
+function isTypedParam(v: unknown): v is TypedParam {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) return false;
+  const type = (v as { type?: unknown }).type;
+  return (
+    typeof type === "string" &&
+    ["timestamp", "date", "time", "decimal", "bytes"].includes(type) &&
+    Object.keys(v).every((k) => TYPED_PARAM_KEYS.has(k))
+  );
+}
+
+const ISO_TIMESTAMP =
+  /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIME = /^\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?$/;
+const EXACT_DECIMAL = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+// Renders a typed descriptor as a dialect-correct literal. Throws a TypeError
+// describing the problem when the descriptor's value is malformed.
+function escapeTypedParam(p: TypedParam, dialect: SqlDialect): string {
+  if (p.type === "bytes") {
+    const hex = p.hex ?? (p.base64 !== undefined ? base64ToHex(p.base64) : "");
+    if (!/^(?:[0-9a-f]{2})*$/i.test(hex)) {
+      throw new TypeError("bytes need an even-length hex or base64 value.");
+    }
+    if (dialect === "postgres") return `'\\x${hex}'::bytea`;
+    if (dialect === "sqlserver") return `0x${hex}`;
+    if (dialect === "oracle") return `HEXTORAW('${hex}')`;
+    return `X'${hex}'`;
+  }
+
+  const value = String(p.value ?? "");
+  if (p.type === "decimal") {
+    if (!EXACT_DECIMAL.test(value)) {
+      throw new TypeError(`"${value}" is not a decimal number.`);
+    }
+    return value;
+  }
+  if (p.type === "date") {
+    if (!ISO_DATE.test(value)) {
+      throw new TypeError(`"${value}" is not a YYYY-MM-DD date.`);
+    }
+    return typedLiteral("DATE", value, dialect);
+  }
+  if (p.type === "time") {
+    if (!ISO_TIME.test(value)) {
+      throw new TypeError(`"${value}" is not an HH:MM[:SS] time.`);
+    }
+    // Oracle has no TIME type; the string converts where one is expected
+    return dialect === "oracle"
+      ? `'${value}'`
+      : typedLiteral("TIME", value, dialect);
+  }
+  if (!ISO_TIMESTAMP.test(value)) {
+    throw new TypeError(`"${value}" is not an ISO 8601 timestamp.`);
+  }
+  // Postgres reads ISO 8601 as-is, but a plain TIMESTAMP would drop the zone;
+  // the others get a UTC "YYYY-MM-DD HH:MM:SS" they all understand
+  if (dialect === "postgres") {
+    const zoned = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value);
+    return `${zoned ? "TIMESTAMPTZ" : "TIMESTAMP"} '${value}'`;
+  }
+  return typedLiteral(
+    dialect === "sqlserver" ? "DATETIME2" : "TIMESTAMP",
+    toUtcTimestamp(value),
+    dialect
+  );
+}
+
+// TYPE 'value' in standard SQL; SQL Server spells it as a CAST and SQLite
+// stores dates and times as plain text
+function typedLiteral(type: string, value: string, dialect: SqlDialect) {
+  if (dialect === "sqlite") return `'${value}'`;
+  if (dialect === "sqlserver") return `CAST('${value}' AS ${type})`;
+  return `${type} '${value}'`;
+}
+
+function toUtcTimestamp(value: string): string {
+  const zoned = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value);
+  if (!zoned) return value.replace("T", " ");
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError(`"${value}" is not an ISO 8601 timestamp.`);
+  }
+  return date
+    .toISOString()
+    .replace("T", " ")
+    .replace(/(\.000)?Z$/, "");
+}
+
+function base64ToHex(base64: string): string {
+  try {
+    return Array.from(atob(base64), (c) =>
+      c.charCodeAt(0).toString(16).padStart(2, "0")
+    ).join("");
+  } catch {
+    throw new TypeError("bytes.base64 is not valid base64.");
+  }
+}
+
+/**
+ * Renders one value as a SQL literal for the given dialect. Throws a TypeError
+ * for typed descriptors whose value doesn't parse.
+ */
+export function escapeSqlValue(v: unknown, options: MergeOptions = {}): string {
+  const dialect = options.dialect ?? "generic";
+  if (v === null || v === undefined) return "NULL";
+  if (isTypedParam(v)) return escapeTypedParam(v, dialect);
+  if (Array.isArray(v) && (options.arrays ?? "off") !== "off") {
+    return escapeSqlArray(v, options);
+  }
+  if (v instanceof LosslessNumber) return v.text;
+  if (typeof v === "object") {
+    // Objects and unexpanded arrays bind JSON columns
+    const literal = escapeSqlString(stringifyJsonLossless(v), dialect);
+    return options.jsonCast ? JSON_CASTS[dialect](literal) : literal;
+  }
+  if (typeof v === "number") {
+    if (Number.isFinite(v)) return String(v);
+    // Only Postgres floats can hold NaN and +/-Infinity
+    return dialect === "postgres" ? `'${v}'::float8` : "NULL";
+  }
+  if (typeof v === "boolean") {
+    // SQL Server and Oracle have no boolean literals; bit/number columns take 1/0
+    if (dialect === "sqlserver" || dialect === "oracle") return v ? "1" : "0";
+    return v ? "TRUE" : "FALSE";
+  }
+  // Dates or other toString-able types handled as strings
+  return escapeSqlString(String(v), dialect);
+}
+
+function escapeSqlString(s: string, dialect: SqlDialect): string {
+  // Double the single quotes inside the string: O'Reilly -> O''Reilly
+  let escaped = s.replace(/'/g, "''");
+  if (dialect === "mysql") {
+    // MySQL reads backslashes in string literals as escapes
+    escaped = escaped.replace(/\\/g, "\\\\");
+  }
+  // SQL Server needs an N prefix to keep non-ASCII text from being mangled
+  // through the connection's code page
+  if (dialect === "sqlserver" && /[^\x00-\x7f]/.test(s)) {
+    return `N'${escaped}'`;
+  }
+  return `'${escaped}'`;
+}
+
+function escapeSqlArray(items: unknown[], options: MergeOptions): string {
+  // The Postgres-only forms fall back to a plain list in other dialects
+  const mode =
+    options.dialect === "postgres" ? (options.arrays ?? "list") : "list";
+  if (mode === "pgLiteral") {
+    return `'${pgArrayLiteral(items).replace(/'/g, "''")}'`;
+  }
+  if (mode === "pgArray") {
+    // ARRAY[] can't infer an element type, so empty arrays use the literal
+    if (!items.length) return "'{}'";
+    const elems = items.map((item) =>
+      Array.isArray(item)
+        ? escapeSqlArray(item, options)
+        : escapeSqlValue(item, options)
+    );
+    return `ARRAY[${elems.join(", ")}]`;
+  }
+  // An empty IN () is a syntax error; IN (NULL) is valid and matches nothing
+  if (!items.length) return "NULL";
+  return items
+    .map((item) =>
+      Array.isArray(item)
+        ? `(${escapeSqlArray(item, options)})`
+        : escapeSqlValue(item, options)
+    )
+    .join(", ");
+}
+
+// Builds the text of a Postgres array literal: {1,"a b",NULL,{2,3}}
+function pgArrayLiteral(items: unknown[]): string {
+  const elems = items.map((item) => {
+    if (item === null || item === undefined) return "NULL";
+    if (Array.isArray(item)) return pgArrayLiteral(item);
+    if (
+      typeof item === "number" ||
+      typeof item === "boolean" ||
+      item instanceof LosslessNumber
+    ) {
+      return String(item);
+    }
+    const text =
+      typeof item === "object" ? stringifyJsonLossless(item) : String(item);
+    return `"${text.replace(/["\\]/g, "\\$&")}"`;
+  });
+  return `{${elems.join(",")}}`;
+}
+
+// Renders the value bound at `token`, noting anything the user should
+// double-check. Values that can't be rendered are reported and return
+// undefined.
+function renderParam(
+  value: unknown,
+  label: string,
+  token: SqlToken,
+  options: MergeOptions,
+  diagnostics: Diagnostic[]
+): string | undefined {
+  const range = tokenRange(token);
+  let literal: string;
+  try {
+    literal = escapeSqlValue(value, options);
+  } catch (e) {
+    if (!(e instanceof TypeError)) throw e;
+    addDiagnostic(diagnostics, {
+      code: "unsupported_value",
+      severity: "error",
+      message: `Parameter ${label}: ${e.message}`,
+      range,
+    });
+    return undefined;
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    addDiagnostic(diagnostics, {
+      code: "non_finite_number",
+      severity: "warning",
+      message: `Parameter ${label} is ${value}, which isn't a SQL number; rendered as ${literal}.`,
+      range,
+    });
+  }
+  const expands = (options.arrays ?? "off") !== "off";
+  if (expands && Array.isArray(value) && !value.length) {
+    addDiagnostic(diagnostics, {
+      code: "empty_array",
+      severity: "warning",
+      message: `Parameter ${label} is an empty array; rendered as ${literal}.`,
+      range,
+    });
+  }
+  return literal;
+}
+
+// Resolves each positional placeholder token to the 1-based parameter index
+// it binds: `?` takes the next index in order, `$n` names its index explicitly.
+function placeholderIndexes(tokens: SqlToken[]): number[] {
+  let ordinal = 0;
+  return tokens
+    .filter((t) => t.type === "placeholder" && !placeholderName(t))
+    .map((t) => (t.text === "?" ? ++ordinal : Number(t.text.slice(1))));
+}
+
+// Anything mergeSql accepts as parameters; a bare number or string is not
+export function isSqlParams(v: unknown): v is SqlParams {
+  return typeof v === "object" && v !== null && !(v instanceof LosslessNumber);
+}
+
+// Whether the query has `?` / `$n` placeholders. Array parameters then bind
+// only those: :name and @name alongside them are variables, like T-SQL's
+// DECLARE @id or MySQL's @rownum, and are left as written.
+function hasPositional(tokens: SqlToken[]): boolean {
+  return tokens.some((t) => t.type === "placeholder" && !placeholderName(t));
+}
+
+function placeholderNames(tokens: SqlToken[]): string[] {
+  return tokens
+    .map(placeholderName)
+    .filter((n): n is string => n !== undefined);
+}
+
+/**
+ * Counts the distinct parameter slots in the SQL: repeated `$1` or `:id`
+ * count once, each `?` counts on its own. Named placeholders next to
+ * positional ones are variables (see hasPositional) and don't count.
+ */
+export function countPlaceholders(
+  sql: string,
+  dialect: SqlDialect = "generic"
+): number {
+  const tokens = tokenizeSql(sql, { dialect });
+  return hasPositional(tokens)
+    ? new Set(placeholderIndexes(tokens)).size
+    : new Set(placeholderNames(tokens)).size;
+}
+
+/**
+ * Replaces the placeholders in `sql` with `params` rendered as literals.
+ * Positional placeholders take an array, named ones an object.
+ */
+export function mergeSql(
+  sql: string,
+  params: SqlParams,
+  options: MergeOptions = {}
+): MergeResult {
+  const tokens = tokenizeSql(sql, { dialect: options.dialect });
+  const diagnostics = unterminatedDiagnostics(tokens);
+  const placeholders = tokens.filter((t) => t.type === "placeholder");
+  const firstNamed = placeholders.find((t) => placeholderName(t));
+  const firstPositional = placeholders.find((t) => !placeholderName(t));
+
+  if (Array.isArray(params) && firstPositional) {
+    return mergePositionalSql(tokens, params, options, diagnostics);
+  }
+  // An empty array is no parameters at all, so report what's missing
+  if (Array.isArray(params) && !params.length && firstNamed) {
+    return mergeNamedSql(tokens, {}, options, diagnostics);
+  }
+  if (firstNamed && firstPositional) {
+    const later =
+      firstNamed.start > firstPositional.start ? firstNamed : firstPositional;
+    return mergeFailure(sql, options, [
+      ...diagnostics,
+      {
+        code: "mixed_placeholders",
+        severity: "error",
+        message: "Cannot mix named and positional placeholders in one query.",
+        range: tokenRange(later),
+      },
+    ]);
+  }
+  if (firstNamed || !Array.isArray(params)) {
+    if (Array.isArray(params)) {
+      return mergeFailure(sql, options, [
+        ...diagnostics,
+        {
+          code: "wrong_params_shape",
+          severity: "error",
+          message: "Named placeholders need the parameters as a JSON object.",
+        },
+      ]);
+    }
+    if (firstPositional) {
+      return mergeFailure(sql, options, [
+        ...diagnostics,
+        {
+          code: "wrong_params_shape",
+          severity: "error",
+          message:
+            "Positional placeholders need the parameters as a JSON array.",
+        },
+      ]);
+    }
+    return mergeNamedSql(tokens, params, options, diagnostics);
+  }
+  return mergePositionalSql(tokens, params, options, diagnostics);
+}
+
+function mergeFailure(
+  sql: string,
+  options: MergeOptions,
+  diagnostics: Diagnostic[]
+): MergeResult {
+  return {
+    result: sql,
+    placeholderCount: countPlaceholders(sql, options.dialect),
+    unusedIndexes: [],
+    missingIndexes: [],
+    unusedNames: [],
+    missingNames: [],
+    diagnostics,
+    literals: [],
+  };
+}
+
+function mergePositionalSql(
+  tokens: SqlToken[],
+  params: unknown[],
+  options: MergeOptions,
+  diagnostics: Diagnostic[]
+): MergeResult {
+  const placeholders = tokens.filter(
+    (t) => t.type === "placeholder" && !placeholderName(t)
+  );
+  const indexes = placeholderIndexes(tokens);
+  const distinct = new Set(indexes);
+  const numbered = placeholders.some((t) => t.text !== "?");
+  let firstMissing: SqlToken | undefined;
+  const literals: MergedLiteral[] = [];
+  let out = "";
+  let pi = 0;
+
+  for (const token of tokens) {
+    if (token.type !== "placeholder" || placeholderName(token)) {
+      out += token.text;
+      continue;
+    }
+    const index = indexes[pi++];
+    const provided = index >= 1 && index <= params.length;
+    if (!provided) firstMissing ??= token;
+    // Missing or unrenderable values leave the placeholder as-is and are
+    // reported below
+    const literal = provided
+      ? renderParam(
+          params[index - 1],
+          numbered ? token.text : String(index),
+          token,
+          options,
+          diagnostics
+        )
+      : undefined;
+    if (literal !== undefined) {
+      literals.push({
+        start: out.length,
+        end: out.length + literal.length,
+        binding: index,
+        placeholder: token.text,
+      });
+    }
+    out += literal ?? token.text;
+  }
+
+  const missingIndexes = [...distinct]
+    .filter((n) => n < 1 || n > params.length)
+    .sort((a, b) => a - b);
+  const unusedIndexes = params
+    .map((_, i) => i + 1)
+    .filter((n) => !distinct.has(n));
+  const result = {
+    result: out,
+    placeholderCount: distinct.size,
+    unusedIndexes,
+    missingIndexes,
+    unusedNames: [],
+    missingNames: [],
+    diagnostics,
+    literals,
+  };
+
+  // The first placeholder in the other style from the one the query opens with
+  const mixed = placeholders.find(
+    (t) => (t.text === "?") !== (placeholders[0].text === "?")
+  );
+  if (mixed) {
+    // Counts mean little when the two styles disagree, so this is all that's
+    // reported about the parameters
+    diagnostics.push({
+      code: "mixed_placeholders",
+      severity: "error",
+      message: "Cannot mix '?' and '$n' placeholders in one query.",
+      range: tokenRange(mixed),
+    });
+    return result;
+  }
+
+  if (unusedIndexes.length) {
+    const used = params.length - unusedIndexes.length;
+    diagnostics.push({
+      code: "too_many_parameters",
+      severity: "error",
+      message:
+        `Too many parameters: provided ${params.length}, used ${used}.` +
+        (numbered
+          ? ` Unused: ${unusedIndexes.map((n) => `$${n}`).join(", ")}.`
+          : ""),
+    });
+  }
+  if (firstMissing) {
+    diagnostics.push({
+      code: "not_enough_parameters",
+      severity: "error",
+      message:
+        `Not enough parameters: placeholders=${distinct.size}, provided=${params.length}.` +
+        (numbered
+          ? ` Missing: ${missingIndexes.map((n) => `$${n}`).join(", ")}.`
+          : ""),
+      range: tokenRange(firstMissing),
+    });
+  }
+  return result;
+}
+
+function mergeNamedSql(
+  tokens: SqlToken[],
+  params: Record<string, unknown>,
+  options: MergeOptions,
+  diagnostics: Diagnostic[]
+): MergeResult {
+  // First placeholder seen for each name; its spelling is used in messages
+  const firsts = new Map<string, SqlToken>();
+  const literals: MergedLiteral[] = [];
+  let out = "";
+
+  for (const token of tokens) {
+    const name = placeholderName(token);
+    if (name === undefined) {
+      out += token.text;
+      continue;
+    }
+    if (!firsts.has(name)) firsts.set(name, token);
+    // Missing keys or unrenderable values leave the placeholder as-is and
+    // are reported below
+    const literal = Object.hasOwn(params, name)
+      ? renderParam(params[name], token.text, token, options, diagnostics)
+      : undefined;
+    if (literal !== undefined) {
+      literals.push({
+        start: out.length,
+        end: out.length + literal.length,
+        binding: name,
+        placeholder: token.text,
+      });
+    }
+    out += literal ?? token.text;
+  }
+
+  const missingNames = [...firsts.keys()].filter(
+    (n) => !Object.hasOwn(params, n)
+  );
+  const unusedNames = Object.keys(params).filter((k) => !firsts.has(k));
+
+  if (unusedNames.length) {
+    diagnostics.push({
+      code: "too_many_parameters",
+      severity: "error",
+      message: `Too many parameters: no placeholder uses ${unusedNames
+        .map((k) => `"${k}"`)
+        .join(", ")}.`,
+    });
+  }
+  if (missingNames.length) {
+    diagnostics.push({
+      code: "not_enough_parameters",
+      severity: "error",
+      message: `Not enough parameters: no value for ${missingNames
+        .map((n) => firsts.get(n)?.text)
+        .join(", ")}.`,
+      range: tokenRange(firsts.get(missingNames[0])!),
+    });
+  }
+  return {
+    result: out,
+    placeholderCount: firsts.size,
+    unusedIndexes: [],
+    missingIndexes: [],
+    unusedNames,
+    missingNames,
+    diagnostics,
+    literals,
+  };
+}
+
+// One placeholder as the scanner sees it, with what it will be bound to
+export type PlaceholderInfo = {
+  // 1-based position among the placeholders, in source order
+  ordinal: number;
+  text: string;
+  // Offset into the SQL
+  start: number;
+  // 1-based
+  line: number;
+  column: number;
+  // The expression leading up to the placeholder, e.g. "abc.anotherId IN ("
+  context: string;
+  // 1-based parameter index for `?` / `$n`, the name for named placeholders
+  binding: number | string;
+  hasValue: boolean;
+  value?: unknown;
+  // JSON type of the value, or the declared type of a typed descriptor
+  valueType?: string;
+  // What escapeSqlValue renders, unless it rejected the value
+  literal?: string;
+  error?: string;
+};
+
+// A provided value that no placeholder binds
+export type UnusedParam = {
+  binding: number | string;
+  value: unknown;
+  valueType: string;
+};
+
+export type PlaceholderInspection = {
+  placeholders: PlaceholderInfo[];
+  unused: UnusedParam[];
+};
+
+// Keywords that start a new expression; the context shown for a placeholder
+// stops at the nearest one
+const CONTEXT_BOUNDARIES = new Set([
+  "select",
+  "from",
+  "where",
+  "and",
+  "or",
+  "on",
+  "join",
+  "set",
+  "values",
+  "having",
+  "by",
+  "limit",
+  "offset",
+  "top",
+  "when",
+  "then",
+  "else",
+  "union",
+]);
+
+const MAX_CONTEXT_LENGTH = 40;
+
+function placeholderContext(tokens: SqlToken[], index: number): string {
+  let start = index;
+  while (start > 0) {
+    const prev = tokens[start - 1];
+    const boundary =
+      prev.text === ";" ||
+      ((prev.type === "keyword" || prev.type === "identifier") &&
+        CONTEXT_BOUNDARIES.has(prev.text.toLowerCase()));
+    if (boundary) {
+      const text = tokens
+        .slice(start, index)
+        .map((t) => t.text)
+        .join("");
+      if (text.trim()) break;
+      // Nothing between the keyword and the placeholder (LIMIT ?): show the
+      // keyword. The AND of BETWEEN ? AND ? also takes the expression before
+      // it, so the second value reads "x BETWEEN ? AND".
+      if (prev.text.toLowerCase() !== "and") {
+        start--;
+        break;
+      }
+    }
+    start--;
+  }
+  const text = tokens
+    .slice(start, index)
+    .filter((t) => t.type !== "comment")
+    .map((t) => (t.type === "whitespace" ? " " : t.text))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > MAX_CONTEXT_LENGTH
+    ? `…${text.slice(-MAX_CONTEXT_LENGTH)}`
+    : text;
+}
+
+function valueType(v: unknown): string {
+  if (v === null || v === undefined) return "null";
+  if (v instanceof LosslessNumber) return "number";
+  if (isTypedParam(v)) return v.type;
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+/**
+ * Lists every placeholder in `sql` with its position, context and the value
+ * it binds from `params` (pass undefined when the parameters don't parse),
+ * plus any provided values that nothing binds.
+ */
+export function inspectPlaceholders(
+  sql: string,
+  params: SqlParams | undefined,
+  options: MergeOptions = {}
+): PlaceholderInspection {
+  const tokens = tokenizeSql(sql, { dialect: options.dialect });
+  const used = new Set<number | string>();
+  const placeholders: PlaceholderInfo[] = [];
+  const namedAsText = Array.isArray(params) && hasPositional(tokens);
+  let questionMarks = 0;
+
+  tokens.forEach((token, i) => {
+    if (token.type !== "placeholder") return;
+    const name = placeholderName(token);
+    if (name !== undefined && namedAsText) return;
+    const binding =
+      name ??
+      (token.text === "?" ? ++questionMarks : Number(token.text.slice(1)));
+    used.add(binding);
+
+    let hasValue = false;
+    let value: unknown;
+    if (typeof binding === "string") {
+      if (params && !Array.isArray(params) && Object.hasOwn(params, binding)) {
+        hasValue = true;
+        value = params[binding];
+      }
+    } else if (Array.isArray(params) && binding >= 1) {
+      hasValue = binding <= params.length;
+      value = params[binding - 1];
+    }
+
+    const info: PlaceholderInfo = {
+      ordinal: placeholders.length + 1,
+      text: token.text,
+      start: token.start,
+      ...positionAt(sql, token.start),
+      context: placeholderContext(tokens, i),
+      binding,
+      hasValue,
+    };
+    if (hasValue) {
+      info.value = value;
+      info.valueType = valueType(value);
+      try {
+        info.literal = escapeSqlValue(value, options);
+      } catch (e) {
+        if (!(e instanceof TypeError)) throw e;
+        info.error = e.message;
+      }
+    }
+    placeholders.push(info);
+  });
+
+  const entries: [number | string, unknown][] = Array.isArray(params)
+    ? params.map((v, i) => [i + 1, v])
+    : Object.entries(params ?? {});
+  const unused = entries
+    .filter(([binding]) => !used.has(binding))
+    .map(([binding, value]) => ({
+      binding,
+      value,
+      valueType: valueType(value),
+    }));
+
+  return { placeholders, unused };
+}
+
+// Placeholder spelling used when parameterizing a literal query
+export type PlaceholderStyle = "?" | "$n" | ":name" | "@name" | "%(name)s";
+
+export const PLACEHOLDER_STYLES: {
+  value: PlaceholderStyle;
+  label: string;
+  // Dialects where the style reads as something else, so a merge wouldn't
+  // bind it: @name is a user variable in MySQL and an operator in Postgres
+  unsupported?: SqlDialect[];
+}[] = [
+  { value: "?", label: "?" },
+  { value: "$n", label: "$1, $2" },
+  { value: ":name", label: ":p1" },
+  { value: "@name", label: "@p1", unsupported: ["mysql", "postgres"] },
+  { value: "%(name)s", label: "%(p1)s" },
+];
+
+// Type names whose parenthesized arguments are sizes, not values: VARCHAR(255)
+const SIZED_TYPES = new Set([
+  "char",
+  "varchar",
+  "nchar",
+  "nvarchar",
+  "binary",
+  "varbinary",
+  "decimal",
+  "numeric",
+  "number",
+  "float",
+  "bit",
+  "time",
+  "timestamp",
+  "datetime2",
+  "datetimeoffset",
+  "varchar2",
+  "nvarchar2",
+  "raw",
+]);
+
+// A string directly after these is a typed literal (DATE '2024-01-01') or a
+// prefixed one (N'...', E'...', X'...'); `?` can't stand in for just the string.
+const STRING_PREFIXES = new Set([
+  "n",
+  "e",
+  "x",
+  "b",
+  "u&",
+  "date",
+  "time",
+  "timestamp",
+  "interval",
+]);
+
+/**
+ * The inverse of mergeSql: replaces string, number, boolean and NULL literals
+ * with placeholders and returns the values they held, so that merging the
+ * result with the same dialect gives back the original query, with TRUE, FALSE
+ * and NULL in capitals. Literals whose meaning depends on being literal
+ * (ORDER BY 1, VARCHAR(255), IS NULL, DATE '...') are left in place.
+ */
+export function parameterizeSql(
+  sql: string,
+  options: MergeOptions = {}
+): { sql: string; params: SqlParams } | { error: string } {
+  const style = options.placeholderStyle ?? "?";
+  const dialect = options.dialect ?? "generic";
+  const unsupported = PLACEHOLDER_STYLES.find(
+    (p) => p.value === style
+  )?.unsupported?.includes(dialect);
+  if (unsupported) {
+    return { error: `${style} placeholders don't work in this dialect.` };
+  }
+  const tokens = tokenizeSql(sql, { dialect });
+  // Positional parameters leave :name and @name alone (see hasPositional),
+  // so variables only get in the way of the named styles
+  const positional = style === "?" || style === "$n";
+  const existing = tokens.some(
+    (t) => t.type === "placeholder" && !(positional && placeholderName(t))
+  );
+  if (existing) {
+    return { error: "The SQL already contains placeholders." };
+  }
+
+  const values: unknown[] = [];
+  // One entry per open paren: whether it holds type sizes
+  const parens: boolean[] = [];
+  let inByList = false;
+  let prev: SqlToken | undefined;
+  let out = "";
+
+  const extract = (value: unknown) => {
+    values.push(value);
+    const n = values.length;
+    return style === "?"
+      ? "?"
+      : style === "$n"
+        ? `$${n}`
+        : style === "%(name)s"
+          ? `%(p${n})s`
+          : `${style[0]}p${n}`;
+  };
+
+  for (const token of tokens) {
+    const lower = token.text.toLowerCase();
+    const prevLower = prev?.text.toLowerCase() ?? "";
+    let replacement: string | undefined;
+
+    if (token.type === "keyword") {
+      inByList =
+        lower === "by" && (prevLower === "order" || prevLower === "group");
+    } else if (token.type === "operator" && token.text === "(") {
+      parens.push(prev?.type === "identifier" && SIZED_TYPES.has(prevLower));
+    } else if (token.type === "operator" && token.text === ")") {
+      parens.pop();
+    }
+
+    if (token.type === "string") {
+      const prefixed =
+        prev?.type === "identifier" &&
+        STRING_PREFIXES.has(prevLower) &&
+        (prev.end === token.start || prevLower.length > 1);
+      const terminated = token.text.length > 1 && token.text.endsWith("'");
+      // MySQL backslash escapes wouldn't survive the round trip verbatim
+      const backslashed = dialect === "mysql" && token.text.includes("\\");
+      // Nor would unprefixed non-ASCII text in SQL Server, which merges back
+      // as N'...'
+      const widened =
+        dialect === "sqlserver" && /[^\x00-\x7f]/.test(token.text);
+      if (!prefixed && terminated && !backslashed && !widened) {
+        replacement = extract(token.text.slice(1, -1).replace(/''/g, "'"));
+      }
+    } else if (token.type === "number") {
+      // Only numbers that are also valid JSON can go into the Parameters box
+      const json = /^(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(
+        token.text
+      );
+      if (json && !inByList && !parens[parens.length - 1]) {
+        const n = Number(token.text);
+        replacement = extract(
+          String(n) === token.text ? n : new LosslessNumber(token.text)
+        );
+      }
+    } else if (
+      token.type === "identifier" &&
+      (lower === "true" || lower === "false") &&
+      dialect !== "sqlserver" &&
+      dialect !== "oracle"
+    ) {
+      replacement = extract(lower === "true");
+    } else if (
+      token.type === "keyword" &&
+      lower === "null" &&
+      !["is", "not", "default"].includes(prevLower)
+    ) {
+      replacement = extract(null);
+    }
+
+    out += replacement ?? token.text;
+    if (token.type !== "whitespace" && token.type !== "comment") prev = token;
+  }
+
+  const named = style !== "?" && style !== "$n";
+  return {
+    sql: out,
+    params: named
+      ? Object.fromEntries(values.map((v, i) => [`p${i + 1}`, v]))
+      : values,
+  };
+}
+
+/**
+ * Collapses SQL onto as few lines as possible without touching the contents
+ * of strings, quoted identifiers or comments.
+ */
+export function minifySqlPreserveStrings(
+  input: string,
+  dialect: SqlDialect = "generic"
+): string {
+  if (!input) return "";
+  const tokens = tokenizeSql(input, { dialect });
+  let out = "";
+
+  tokens.forEach((token, i) => {
+    if (token.type !== "whitespace") {
+      out += token.text;
+      return;
+    }
+    const prevToken = tokens[i - 1];
+    if (prevToken && isLineComment(prevToken)) {
+      // a line comment runs to end of line, so keep one newline after it
+      out += "\n";
+      return;
+    }
+    // avoid spaces right after '(' or ',' and before ')' or ','
+    const prev = out[out.length - 1];
+    const nextText = tokens[i + 1]?.text ?? "";
+    if (!prev || prev === "(" || prev === ",") return;
+    if (nextText === ")" || nextText === ",") return;
+    out += " ";
+  });
+
+  return out.trim();
+}
+
+/**
+ * Pretty-prints SQL with poor-mans-t-sql-formatter, falling back to the
+ * simpler formatSql when the package can't be loaded.
+ */
+export async function beautifyWithPMTSF(
+  sql: string,
+  dialect: SqlDialect = "generic",
+  style: BeautifyOptions = DEFAULT_BEAUTIFY_OPTIONS
+): Promise<string> {
+  if (!sql) return "";
+  try {
+    // Dynamic import supports Next.js's inferred deps; handle CJS interop
+    const mod = await import("poor-mans-t-sql-formatter");
+    const lib = mod.default ?? mod;
+
+    const options = {
+      ...style,
+      // Only used to measure line length when indenting with tabs
+      spacesPerTab: 2,
+      coloring: false, // we already render our own highlight preview
+      // Leave keywordStandardization off to respect non-T-SQL dialects
+    };
+
+    const result = lib.formatSql(sql, options);
+    return typeof result.text === "string" ? result.text : sql;
+  } catch {
+    // Fallback to local formatter if the package isn't available
+    return formatSql(sql, dialect, style);
+  }
+}
+
+/**
+ * Parses the text of a Parameters box: JSON as with parseJsonLossless, which
+ * must be an array (positional) or an object (named).
+ */
+export function parseSqlParams(
+  text: string
+): { params: SqlParams } | { error: string } {
+  try {
+    const parsed = parseJsonLossless(text);
+    if (!isSqlParams(parsed)) {
+      return {
+        error: "Parameters input must be a JSON array or object.",
+      };
+    }
+    return { params: parsed };
+  } catch {
+    return {
+      error:
+        'Invalid JSON. Ensure it\'s a valid array like ["784", 123, 456] or an object like {"id": 784}',
+    };
+  }
+}
+
+// A named parameter list for one query, e.g. per tenant or date range
+export type ParamSet = {
+  name: string;
+  // Parameters text as typed
+  params: string;
+};
+
+// Problems a parameter set can have by itself; the query's own (an unclosed
+// string, mixed placeholder styles) show up in the main diagnostics instead
+const PARAM_SET_CODES = new Set<DiagnosticCode>([
+  "wrong_params_shape",
+  "unsupported_value",
+  "non_finite_number",
+]);
+
+/**
+ * Checks a parameter set against the query the way mergeSql binds it: the
+ * text must parse, every placeholder needs a value and every value a
+ * placeholder. Returns the problem, or undefined when the set fits.
+ */
+export function checkParamSet(
+  sql: string,
+  set: ParamSet,
+  dialect: SqlDialect = "generic"
+): string | undefined {
+  const parsed = parseSqlParams(set.params);
+  if ("error" in parsed) return parsed.error;
+  const r = mergeSql(sql, parsed.params, { dialect });
+  const label = (binding: number | string) =>
+    typeof binding === "number" ? String(binding) : `"${binding}"`;
+  const missing = [...r.missingIndexes, ...r.missingNames].map(label);
+  const unused = [...r.unusedIndexes, ...r.unusedNames].map(label);
+  const problems: string[] = [];
+  if (missing.length) problems.push(`Missing ${missing.join(", ")}.`);
+  if (unused.length) problems.push(`Unused ${unused.join(", ")}.`);
+  if (problems.length) return problems.join(" ");
+  return r.diagnostics.find((d) => PARAM_SET_CODES.has(d.code))?.message;
+}
+
+/**
+ * Lays out merged SQL according to `options.format`.
+ */
+export async function formatMergedSql(
+  sql: string,
+  options: MergeOptions = {}
+): Promise<string> {
+  if (!sql) return "";
+  if (options.format === "beautify") {
+    // poor-mans-t-sql-formatter only really knows T-SQL
+    return options.dialect === "sqlserver"
+      ? beautifyWithPMTSF(sql, options.dialect, options.beautify)
+      : formatSql(sql, options.dialect, options.beautify);
+  }
+  if (options.format === "minify") {
+    return minifySqlPreserveStrings(sql, options.dialect);
+  }
+  return sql;
+}
+
+// How far ahead to look for the next matching token when the formatter has
+// added or dropped some, e.g. comments
+const RESYNC_WINDOW = 8;
+
+function significantTokens(sql: string, dialect: SqlDialect): SqlToken[] {
+  return tokenizeSql(sql, { dialect }).filter(
+    (t) => t.type !== "whitespace" && t.type !== "comment"
+  );
+}
+
+/**
+ * Finds mergeSql's literals again after the merged SQL has been reformatted.
+ * Formatting only moves whitespace and changes case, so the two token streams
+ * are walked side by side; literals whose tokens can't all be matched are
+ * left out.
+ */
+export function relocateLiterals(
+  merged: string,
+  literals: MergedLiteral[],
+  formatted: string,
+  dialect: SqlDialect = "generic"
+): MergedLiteral[] {
+  if (formatted === merged) return literals;
+  const from = significantTokens(merged, dialect);
+  const to = significantTokens(formatted, dialect);
+  const same = (a: SqlToken, b: SqlToken) =>
+    a.text.toLowerCase() === b.text.toLowerCase();
+
+  // Index into `to` for each token of `from` that has a counterpart
+  const matched = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (same(from[i], to[j])) {
+      matched.set(i++, j++);
+      continue;
+    }
+    const skipTo = to
+      .slice(j + 1, j + 1 + RESYNC_WINDOW)
+      .findIndex((t) => same(from[i], t));
+    if (skipTo !== -1) {
+      j += skipTo + 1;
+      continue;
+    }
+    i++;
+  }
+
+  return literals.flatMap((literal) => {
+    const indexes: number[] = [];
+    from.forEach((t, k) => {
+      if (t.start >= literal.start && t.end <= literal.end) indexes.push(k);
+    });
+    const mapped = indexes.map((k) => matched.get(k));
+    if (!indexes.length || mapped.some((k) => k === undefined)) return [];
+    return [
+      {
+        ...literal,
+        start: to[mapped[0]!].start,
+        end: to[mapped[mapped.length - 1]!].end,
+      },
+    ];
+  });
+}
+
+// MergeResult plus the merged SQL laid out per `options.format`
+export type FormattedMergeResult = MergeResult & { formatted: string };
+
+/**
+ * mergeSql followed by formatMergedSql. `formatted` is empty when the merge
+ * failed, so callers never show half-merged SQL as finished output.
+ */
+export async function mergeAndFormatSql(
+  sql: string,
+  params: SqlParams,
+  options: MergeOptions = {}
+): Promise<FormattedMergeResult> {
+  const r = mergeSql(sql, params, options);
+  const formatted = hasErrors(r.diagnostics)
+    ? ""
+    : await formatMergedSql(r.result, options);
+  return { ...r, formatted };
+}
@@ -0,0 +1,8 @@
+// The package ships without type declarations; this covers the one call we
+// make. It's CommonJS, so it may arrive as `default` when imported.
+declare module "poor-mans-t-sql-formatter" {
+  const formatter: {
+    formatSql(sql: string, options: object): { text: string };
+  };
+  export = formatter;
+}